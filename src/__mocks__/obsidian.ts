@@ -0,0 +1,31 @@
+export const Platform = {
+  isDesktop: true,
+  isMobile: false,
+  isDesktopApp: true,
+  isMobileApp: false,
+  isIosApp: false,
+  isAndroidApp: false,
+  isPhone: false,
+  isTablet: false,
+  isMacOS: false,
+  isWin: false,
+  isLinux: true,
+  isSafari: false,
+  resourcePathPrefix: ''
+};
+
+export type DesktopPlatform = 'macos' | 'win' | 'linux';
+
+export const setDesktopPlatform = (platform: DesktopPlatform) => {
+  Platform.isDesktop = true;
+  Platform.isDesktopApp = true;
+  Platform.isMobile = false;
+  Platform.isMobileApp = false;
+  Platform.isMacOS = platform === 'macos';
+  Platform.isWin = platform === 'win';
+  Platform.isLinux = platform === 'linux';
+};
+
+export class Notice {
+  hide() {}
+}
@@ -0,0 +1,144 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AutoSync, formatAutoSyncStatus, getRetryDelayMs } from './auto-sync';
+import type { GitOutputLog } from './git-log';
+import { DEFAULT_SETTINGS, type OpenInTerminalSettings } from './settings';
+
+const MINUTE_MS = 60_000;
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay for each consecutive failure up to an hour', () => {
+    const delays = [0, 1, 2, 3, 4].map((failures) => getRetryDelayMs(10 * MINUTE_MS, failures));
+    expect(delays).toEqual([10, 20, 40, 60, 60].map((minutes) => minutes * MINUTE_MS));
+  });
+
+  it('never waits less than the configured interval', () => {
+    expect(getRetryDelayMs(120 * MINUTE_MS, 3)).toBe(120 * MINUTE_MS);
+  });
+});
+
+describe('formatAutoSyncStatus', () => {
+  it('describes each state for the status bar', () => {
+    const time = new Date(2024, 5, 11, 14, 5);
+    expect(formatAutoSyncStatus({ kind: 'idle', lastSync: null })).toBe('Git sync: not yet synced');
+    expect(formatAutoSyncStatus({ kind: 'idle', lastSync: time })).toBe('Git sync: 14:05');
+    expect(formatAutoSyncStatus({ kind: 'failed', error: 'offline', retryAt: time })).toBe(
+      'Git sync: failed, retry at 14:05'
+    );
+    expect(formatAutoSyncStatus({ kind: 'paused' })).toBe('Git sync: paused');
+    expect(formatAutoSyncStatus({ kind: 'conflict' })).toBe('Git sync: paused on conflicts');
+  });
+});
+
+describe('AutoSync', () => {
+  let repository = '';
+  let remote = '';
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      cwd: repository,
+      stdio: 'pipe',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+        GIT_CONFIG_NOSYSTEM: '1'
+      }
+    }).toString();
+
+  const commitNote = (content: string, message: string) => {
+    writeFileSync(join(repository, 'note.md'), content);
+    git('add', '--all');
+    git('commit', '-q', '-m', message);
+  };
+
+  const createAutoSync = (settings: OpenInTerminalSettings = DEFAULT_SETTINGS) => {
+    const onConflict = vi.fn();
+    const statusBarEl = {
+      addClass: vi.fn(),
+      addEventListener: vi.fn(),
+      toggle: vi.fn(),
+      setText: vi.fn(),
+      setAttr: vi.fn()
+    };
+    const autoSync = new AutoSync(
+      {
+        getSettings: () => settings,
+        getVaultPath: () => repository,
+        log: { add: vi.fn() } as unknown as GitOutputLog,
+        onConflict
+      },
+      statusBarEl as unknown as HTMLElement
+    );
+    return { autoSync, onConflict, statusBarEl };
+  };
+
+  beforeEach(() => {
+    repository = mkdtempSync(join(tmpdir(), 'open-in-terminal-auto-sync-'));
+    git('init', '-q', '-b', 'main');
+    commitNote('base\n', 'base');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(repository, { recursive: true, force: true });
+    if (remote) {
+      rmSync(remote, { recursive: true, force: true });
+      remote = '';
+    }
+  });
+
+  it('does not commit or push while a pull is stopped on conflicts', async () => {
+    git('checkout', '-q', '-b', 'remote');
+    commitNote('theirs\n', 'remote change');
+    git('checkout', '-q', 'main');
+    commitNote('mine\n', 'local change');
+    expect(() => git('merge', 'remote')).toThrow();
+    const head = git('rev-parse', 'HEAD');
+
+    const { autoSync, onConflict, statusBarEl } = createAutoSync();
+    await autoSync.syncNow();
+    await autoSync.syncNow();
+
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(readFileSync(join(repository, 'note.md'), 'utf8')).toContain('<<<<<<<');
+    expect(git('diff', '--name-only', '--diff-filter=U').trim()).toBe('note.md');
+    expect(onConflict).toHaveBeenCalledTimes(2);
+    expect(statusBarEl.setText).toHaveBeenLastCalledWith('Git sync: paused on conflicts');
+  });
+
+  it('pushes commits that an earlier push left behind', async () => {
+    remote = mkdtempSync(join(tmpdir(), 'open-in-terminal-auto-sync-remote-'));
+    execFileSync('git', ['init', '-q', '--bare', remote]);
+    git('remote', 'add', 'origin', remote);
+    git('push', '-q', '-u', 'origin', 'main');
+    commitNote('offline\n', 'committed while offline');
+
+    await createAutoSync().autoSync.syncNow();
+
+    expect(git('rev-list', '--count', '@{upstream}..HEAD').trim()).toBe('0');
+  });
+
+  it('restarts the timer only when the schedule settings change', () => {
+    const setTimeout = vi.fn(() => 1);
+    vi.stubGlobal('window', { setTimeout, clearTimeout: vi.fn() });
+    const settings = { ...DEFAULT_SETTINGS, autoSyncMode: 'interval' as const };
+    const { autoSync } = createAutoSync(settings);
+
+    autoSync.reschedule();
+    settings.defaultCommitMessage = 'edited';
+    autoSync.reschedule();
+    expect(setTimeout).toHaveBeenCalledTimes(1);
+
+    settings.autoSyncMinutes += 5;
+    autoSync.reschedule();
+    expect(setTimeout).toHaveBeenCalledTimes(2);
+  });
+});
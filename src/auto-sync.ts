@@ -0,0 +1,322 @@
+import { Notice } from 'obsidian';
+
+import { checkUnfinishedMerge } from './conflicts';
+import {
+  describeGitOutcome,
+  formatCommitMessage,
+  getGitCommitSteps,
+  isGitRepository,
+  readAheadCount,
+  readGitStatus,
+  runGitSteps,
+  type GitStepsResult
+} from './git';
+import type { GitOutputLog } from './git-log';
+import { logger } from './logger';
+import type { OpenInTerminalSettings } from './settings';
+import { formatDate } from './template';
+
+export type AutoSyncMode = 'off' | 'interval' | 'idle';
+
+export const autoSyncModeLabels: Record<AutoSyncMode, string> = {
+  off: 'Off',
+  interval: 'Every N minutes',
+  idle: 'After N minutes without edits'
+};
+
+export const isAutoSyncMode = (value: unknown): value is AutoSyncMode =>
+  value === 'off' || value === 'interval' || value === 'idle';
+
+export type AutoSyncHost = {
+  getSettings(): OpenInTerminalSettings;
+  getVaultPath(): string | null;
+  log: GitOutputLog;
+  onConflict(): void;
+};
+
+export type AutoSyncState =
+  | { kind: 'paused' }
+  | { kind: 'syncing' }
+  | { kind: 'conflict' }
+  | { kind: 'idle'; lastSync: Date | null }
+  | { kind: 'failed'; error: string; retryAt: Date | null };
+
+const LABEL = 'Git auto-sync';
+const MINUTE_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * MINUTE_MS;
+
+/**
+ * Returns how long to wait before the next sync. Each consecutive failure doubles the delay, up
+ * to an hour or the configured interval, whichever is longer.
+ */
+export const getRetryDelayMs = (intervalMs: number, failures: number): number =>
+  Math.min(intervalMs * 2 ** failures, Math.max(intervalMs, MAX_RETRY_DELAY_MS));
+
+export const formatAutoSyncStatus = (state: AutoSyncState): string => {
+  switch (state.kind) {
+    case 'paused':
+      return 'Git sync: paused';
+    case 'syncing':
+      return 'Git sync: syncing…';
+    case 'conflict':
+      return 'Git sync: paused on conflicts';
+    case 'idle':
+      return state.lastSync
+        ? `Git sync: ${formatDate(state.lastSync, 'HH:mm')}`
+        : 'Git sync: not yet synced';
+    case 'failed':
+      return state.retryAt
+        ? `Git sync: failed, retry at ${formatDate(state.retryAt, 'HH:mm')}`
+        : 'Git sync: failed';
+  }
+};
+
+/**
+ * Pulls when Obsidian starts, commits and pushes on an interval or after the vault has been idle,
+ * and pushes once more on unload. Runs git in the background and shows its state in the status bar.
+ */
+export class AutoSync {
+  private timer: number | null = null;
+  private running = false;
+  private failures = 0;
+  private retryAt = 0;
+  private lastSync: Date | null = null;
+  private lastError = '';
+  private stopped = false;
+  // Set while a pull that stopped on conflicts is unresolved; syncs wait until it is.
+  private conflicted = false;
+  // The settings that the timer depends on, as of the last reschedule.
+  private scheduleKey = '';
+
+  constructor(
+    private readonly host: AutoSyncHost,
+    private readonly statusBarEl: HTMLElement
+  ) {
+    statusBarEl.addClass('mod-clickable');
+    statusBarEl.addEventListener('click', () => {
+      void this.syncNow();
+    });
+  }
+
+  start() {
+    this.reschedule();
+    const settings = this.host.getSettings();
+    if (settings.autoSyncPullOnStartup && !settings.autoSyncPaused) {
+      void this.pull();
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Re-reads the settings after they change. The timer only restarts when the mode, interval or
+   * paused state changed, so editing other settings does not keep delaying the next sync.
+   */
+  reschedule() {
+    const settings = this.host.getSettings();
+    const scheduleKey = [
+      settings.autoSyncMode,
+      settings.autoSyncMinutes,
+      settings.autoSyncPaused
+    ].join(':');
+    if (scheduleKey === this.scheduleKey) {
+      this.render();
+      return;
+    }
+    this.scheduleKey = scheduleKey;
+    if (settings.autoSyncMode === 'interval' && !settings.autoSyncPaused) {
+      this.schedule(this.getNextDelayMs());
+    } else if (settings.autoSyncMode !== 'idle' || settings.autoSyncPaused) {
+      // A pending idle sync survives unrelated settings changes.
+      this.clearTimer();
+    }
+    this.render();
+  }
+
+  notifyVaultChange() {
+    const settings = this.host.getSettings();
+    if (settings.autoSyncMode !== 'idle' || settings.autoSyncPaused) {
+      return;
+    }
+    this.schedule(Math.max(this.getIntervalMs(), this.retryAt - Date.now()));
+  }
+
+  async syncNow(): Promise<void> {
+    const wasConflicted = this.conflicted;
+    await this.run('commit-push');
+    // The first conflict already opened the assistant; asking again reopens it.
+    if (wasConflicted && this.conflicted) {
+      this.host.onConflict();
+    }
+  }
+
+  /** Starts a commit and push without waiting for it, for when the plugin unloads. */
+  pushOnUnload() {
+    const settings = this.host.getSettings();
+    if (settings.autoSyncPushOnUnload && !settings.autoSyncPaused) {
+      void this.run('commit-push');
+    }
+  }
+
+  private async pull() {
+    await this.run('pull');
+  }
+
+  private async run(action: 'pull' | 'commit-push') {
+    const cwd = this.host.getVaultPath();
+    if (!cwd || this.running) {
+      return;
+    }
+    this.running = true;
+    this.render();
+    try {
+      const result = await this.runGit(cwd, action);
+      this.recordResult(result);
+    } finally {
+      this.running = false;
+      const settings = this.host.getSettings();
+      if (settings.autoSyncMode === 'interval' && !settings.autoSyncPaused) {
+        this.schedule(this.getNextDelayMs());
+      } else if (settings.autoSyncMode === 'idle' && this.failures > 0) {
+        this.schedule(this.getNextDelayMs());
+      }
+      this.render();
+    }
+  }
+
+  private async runGit(cwd: string, action: 'pull' | 'commit-push'): Promise<GitStepsResult> {
+    const onStep: Parameters<typeof runGitSteps>[2] = (args, result) => {
+      logger.log('Auto-sync ran git', { args, code: result.code });
+      this.host.log.add(LABEL, args, result);
+    };
+    if (!(await isGitRepository(cwd))) {
+      return {
+        outcome: 'error',
+        args: ['rev-parse', '--is-inside-work-tree'],
+        result: { code: null, stdout: '', stderr: 'Not a Git repository' }
+      };
+    }
+    const unfinishedMerge = await checkUnfinishedMerge(cwd);
+    if (unfinishedMerge) {
+      return unfinishedMerge;
+    }
+    if (action === 'pull') {
+      return runGitSteps(cwd, [['pull']], onStep);
+    }
+
+    const status = await readGitStatus(cwd);
+    if ('error' in status) {
+      return {
+        outcome: 'error',
+        args: ['status'],
+        result: { code: null, stdout: '', stderr: status.error }
+      };
+    }
+    if (status.changes.length === 0) {
+      // Commits from a push that failed, for example while offline, still need to go out.
+      const ahead = await readAheadCount(cwd);
+      return ahead
+        ? runGitSteps(cwd, [['push']], onStep)
+        : { outcome: 'success', args: [], result: { code: 0, stdout: '', stderr: '' } };
+    }
+    const message = formatCommitMessage(
+      this.host.getSettings().defaultCommitMessage,
+      status.changes
+    );
+    return runGitSteps(cwd, getGitCommitSteps(message), onStep);
+  }
+
+  private recordResult(result: GitStepsResult) {
+    if (result.outcome === 'conflict') {
+      // Retrying cannot help until the user resolves the conflicts, so this is not a failure.
+      if (!this.conflicted) {
+        this.conflicted = true;
+        new Notice(`${describeGitOutcome(LABEL, result)} Auto-sync waits until then.`);
+        this.host.onConflict();
+      }
+      return;
+    }
+    this.conflicted = false;
+    if (result.outcome === 'success' || result.outcome === 'nothing-to-commit') {
+      this.failures = 0;
+      this.retryAt = 0;
+      this.lastSync = new Date();
+      return;
+    }
+    this.failures += 1;
+    this.retryAt = Date.now() + this.getNextDelayMs();
+    this.lastError = describeGitOutcome(LABEL, result);
+    // Repeated failures only update the status bar, so a missing network does not flood notices.
+    if (this.failures === 1) {
+      new Notice(this.lastError);
+    }
+  }
+
+  private getIntervalMs(): number {
+    return this.host.getSettings().autoSyncMinutes * MINUTE_MS;
+  }
+
+  private getNextDelayMs(): number {
+    return getRetryDelayMs(this.getIntervalMs(), this.failures);
+  }
+
+  private schedule(delayMs: number) {
+    this.clearTimer();
+    if (this.stopped) {
+      return;
+    }
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.run('commit-push');
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private getState(): AutoSyncState {
+    if (this.running) {
+      return { kind: 'syncing' };
+    }
+    if (this.host.getSettings().autoSyncPaused) {
+      return { kind: 'paused' };
+    }
+    if (this.conflicted) {
+      return { kind: 'conflict' };
+    }
+    if (this.failures > 0) {
+      return {
+        kind: 'failed',
+        error: this.lastError,
+        retryAt: this.timer !== null ? new Date(this.retryAt) : null
+      };
+    }
+    return { kind: 'idle', lastSync: this.lastSync };
+  }
+
+  private render() {
+    const settings = this.host.getSettings();
+    const visible =
+      settings.autoSyncMode !== 'off' ||
+      settings.autoSyncPullOnStartup ||
+      settings.autoSyncPushOnUnload;
+    this.statusBarEl.toggle(visible);
+    const state = this.getState();
+    this.statusBarEl.setText(formatAutoSyncStatus(state));
+    this.statusBarEl.setAttr(
+      'aria-label',
+      state.kind === 'failed'
+        ? `${state.error} Click to sync now.`
+        : state.kind === 'conflict'
+          ? 'Resolve the merge conflicts to resume syncing. Click to open the conflict assistant.'
+          : 'Click to sync now.'
+    );
+  }
+}
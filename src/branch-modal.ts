@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+import { getBranchLabel, type GitBranch } from './git';
+
+export class BranchSuggestModal extends FuzzySuggestModal<GitBranch> {
+  constructor(
+    app: App,
+    private readonly branches: readonly GitBranch[],
+    private readonly onChoose: (branch: GitBranch) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Switch to branch…');
+  }
+
+  getItems(): GitBranch[] {
+    return [...this.branches];
+  }
+
+  getItemText(branch: GitBranch): string {
+    return getBranchLabel(branch);
+  }
+
+  onChooseItem(branch: GitBranch) {
+    this.onChoose(branch);
+  }
+}
@@ -0,0 +1,119 @@
+import { tmpdir } from 'os';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  findCodeBlockAt,
+  formatCaptureBlock,
+  insertAfterLine,
+  runCapture,
+  stripAnsi,
+  type CaptureResult
+} from './capture';
+
+const options = { cwd: tmpdir(), timeoutMs: 10_000, maxOutputBytes: 1024 };
+
+describe('runCapture', () => {
+  it('collects standard output and standard error with the exit code', async () => {
+    const result = await runCapture('echo out; echo err 1>&2; echo "$GREETING"; exit 3', {
+      ...options,
+      env: { GREETING: 'hi' }
+    });
+    expect(result.code).toBe(3);
+    expect(result.stopped).toBeUndefined();
+    expect(result.output.trim().split('\n').sort()).toEqual(['err', 'hi', 'out'].sort());
+  });
+
+  it('runs in the given directory', async () => {
+    const result = await runCapture('pwd', { ...options, cwd: '/' });
+    expect(result.output.trim()).toBe('/');
+  });
+
+  it('stops commands that run too long', async () => {
+    const result = await runCapture('echo started; sleep 10', { ...options, timeoutMs: 200 });
+    expect(result.stopped).toBe('timeout');
+    expect(result.output).toBe('started\n');
+  });
+
+  it('stops commands that print too much and keeps the output up to the limit', async () => {
+    const result = await runCapture('while :; do echo yes; done', {
+      ...options,
+      maxOutputBytes: 100
+    });
+    expect(result.stopped).toBe('output-limit');
+    expect(result.output).toHaveLength(100);
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    const running = runCapture('sleep 10', { ...options, signal: controller.signal });
+    controller.abort();
+    await expect(running).resolves.toMatchObject({ stopped: 'cancelled' });
+  });
+});
+
+describe('formatCaptureBlock', () => {
+  const time = new Date(2024, 0, 2, 3, 4, 5);
+  const result: CaptureResult = { output: 'ok\n', code: 0 };
+
+  it('shows the command, its output and how it ended', () => {
+    expect(formatCaptureBlock('npm test', result, time, 1024)).toBe(
+      '```console\n$ npm test\nok\n# exit code 0, 2024-01-02 03:04:05\n```'
+    );
+    expect(
+      formatCaptureBlock(
+        'make\nmake install',
+        { output: '', code: null, stopped: 'timeout' },
+        time,
+        1024
+      )
+    ).toBe(
+      '```console\n$ make\n$ make install\n# stopped after the time limit, 2024-01-02 03:04:05\n```'
+    );
+    expect(
+      formatCaptureBlock('yes', { output: 'y', code: null, stopped: 'output-limit' }, time, 262144)
+    ).toContain('# stopped after 256 KB of output');
+    expect(
+      formatCaptureBlock('nope', { output: '', code: null, error: 'spawn ENOENT' }, time, 1024)
+    ).toContain('# failed to start: spawn ENOENT');
+  });
+
+  it('uses a fence that the output cannot close', () => {
+    const block = formatCaptureBlock('cat README.md', { output: '````js\n````', code: 0 }, time, 1);
+    expect(block.startsWith('`````console\n')).toBe(true);
+    expect(block.endsWith('\n`````')).toBe(true);
+  });
+
+  it('removes terminal escape sequences', () => {
+    expect(stripAnsi('\x1b[32mpassed\x1b[0m \x1b]0;title\x07done')).toBe('passed done');
+  });
+});
+
+describe('insertAfterLine', () => {
+  it('inserts after the line, or at the end past it', () => {
+    expect(insertAfterLine('a\nb\nc', 0, 'x\ny')).toBe('a\nx\ny\nb\nc');
+    expect(insertAfterLine('a\nb', 10, 'x')).toBe('a\nb\nx');
+  });
+});
+
+describe('findCodeBlockAt', () => {
+  const lines = ['intro', '```bash', 'npm ci', 'npm test', '```', 'between', '~~~', 'ls', '~~~'];
+
+  it('returns the block around the line, fences included', () => {
+    expect(findCodeBlockAt(lines, 2)).toEqual({ code: 'npm ci\nnpm test', endLine: 4 });
+    expect(findCodeBlockAt(lines, 1)).toEqual({ code: 'npm ci\nnpm test', endLine: 4 });
+    expect(findCodeBlockAt(lines, 8)).toEqual({ code: 'ls', endLine: 8 });
+  });
+
+  it('returns null outside blocks', () => {
+    expect(findCodeBlockAt(lines, 0)).toBeNull();
+    expect(findCodeBlockAt(lines, 5)).toBeNull();
+  });
+
+  it('reads an unclosed block up to the end of the note', () => {
+    expect(findCodeBlockAt(['```', 'echo 1', 'echo 2'], 1)).toEqual({
+      code: 'echo 1\necho 2',
+      endLine: 2
+    });
+  });
+});
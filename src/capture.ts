@@ -0,0 +1,192 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+import { formatDate } from './template';
+
+export type CaptureDestination = 'cursor' | 'file';
+
+export const captureDestinationLabels: Record<CaptureDestination, string> = {
+  cursor: 'Below the cursor',
+  file: 'Linked output note'
+};
+
+export const isCaptureDestination = (value: unknown): value is CaptureDestination =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(captureDestinationLabels, value);
+
+export type CaptureOptions = {
+  cwd: string;
+  env?: Record<string, string>;
+  timeoutMs: number;
+  maxOutputBytes: number;
+  signal?: AbortSignal;
+};
+
+export type CaptureResult = {
+  // Standard output and standard error, interleaved as they arrived.
+  output: string;
+  code: number | null;
+  // Why the command was stopped early, if it was.
+  stopped?: 'timeout' | 'output-limit' | 'cancelled';
+  error?: string;
+};
+
+// Colors and cursor movement that programs print for terminals.
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07/g;
+
+export const stripAnsi = (text: string): string => text.replace(ANSI_ESCAPE_PATTERN, '');
+
+// Killing only the shell would leave the programs it started running and holding the output
+// open, so the whole tree goes: by process group on POSIX, through taskkill on Windows.
+const killTree = (child: ChildProcess) => {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-child.pid, 'SIGKILL');
+    }
+  } catch {
+    child.kill();
+  }
+};
+
+/**
+ * Runs a command in the system shell without a terminal and collects what it prints. The
+ * command is killed when it runs too long, prints too much or `signal` aborts. Never rejects.
+ */
+export const runCapture = (command: string, options: CaptureOptions): Promise<CaptureResult> =>
+  new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let stopped: CaptureResult['stopped'];
+    let error: string | undefined;
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    const stop = (reason: NonNullable<CaptureResult['stopped']>) => {
+      if (!stopped) {
+        stopped = reason;
+        killTree(child);
+      }
+    };
+    const collect = (chunk: Buffer) => {
+      if (stopped === 'output-limit') {
+        return;
+      }
+      const room = options.maxOutputBytes - size;
+      chunks.push(chunk.subarray(0, room));
+      size += Math.min(chunk.length, room);
+      if (chunk.length > room) {
+        stop('output-limit');
+      }
+    };
+    const onAbort = () => stop('cancelled');
+    const timer = setTimeout(() => stop('timeout'), options.timeoutMs);
+
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+    options.signal?.addEventListener('abort', onAbort);
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    child.on('error', (spawnError) => {
+      error = spawnError.message;
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({
+        output: stripAnsi(Buffer.concat(chunks).toString()),
+        code,
+        stopped,
+        error
+      });
+    });
+  });
+
+const describeCapture = (result: CaptureResult, maxOutputBytes: number): string => {
+  if (result.error) {
+    return `failed to start: ${result.error}`;
+  }
+  switch (result.stopped) {
+    case 'timeout':
+      return 'stopped after the time limit';
+    case 'cancelled':
+      return 'cancelled';
+    case 'output-limit':
+      return `stopped after ${Math.round(maxOutputBytes / 1024)} KB of output`;
+    default:
+      return `exit code ${result.code ?? 'none'}`;
+  }
+};
+
+/**
+ * Formats a run as a fenced block: the command, its output, then how it ended and when. The
+ * fence is longer than any backtick run in the output, so the output cannot close it.
+ */
+export const formatCaptureBlock = (
+  command: string,
+  result: CaptureResult,
+  time: Date,
+  maxOutputBytes: number
+): string => {
+  const body = [
+    ...command.split(/\r?\n/).map((line) => `$ ${line}`),
+    ...(result.output.trimEnd() ? [result.output.trimEnd()] : []),
+    `# ${describeCapture(result, maxOutputBytes)}, ${formatDate(time, 'YYYY-MM-DD HH:mm:ss')}`
+  ].join('\n');
+  const runs: string[] = body.match(/`+/g) ?? [];
+  const longestRun = Math.max(0, ...runs.map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}console\n${body}\n${fence}`;
+};
+
+/** Inserts `text` as its own lines after the zero-based `line`, or at the end if it is past it. */
+export const insertAfterLine = (content: string, line: number, text: string): string => {
+  const lines = content.split('\n');
+  const index = Math.min(Math.max(line + 1, 0), lines.length);
+  lines.splice(index, 0, ...text.split('\n'));
+  return lines.join('\n');
+};
+
+/**
+ * Finds the fenced code block around a zero-based line and returns its body and the line of
+ * its closing fence.
+ */
+export const findCodeBlockAt = (
+  lines: readonly string[],
+  line: number
+): { code: string; endLine: number } | null => {
+  let open: { line: number; fence: string } | null = null;
+  for (let index = 0; index < lines.length; index++) {
+    if (!open) {
+      const match = /^ {0,3}(`{3,}|~{3,})/.exec(lines[index]);
+      if (match) {
+        open = { line: index, fence: match[1] };
+      } else if (index >= line) {
+        return null;
+      }
+      continue;
+    }
+    const fence = open.fence;
+    const closes = new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[index]);
+    if (closes || index === lines.length - 1) {
+      const endLine = closes ? index : lines.length;
+      if (line >= open.line && line <= index) {
+        return { code: lines.slice(open.line + 1, endLine).join('\n'), endLine: index };
+      }
+      if (index >= line) {
+        return null;
+      }
+      open = null;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,101 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import { gitChangeKindLabels, type GitChange } from './git';
+
+type CommitSubmitHandler = (changes: GitChange[], message: string) => void;
+
+export class CommitModal extends Modal {
+  private readonly selected: Set<GitChange>;
+  private message: string;
+
+  constructor(
+    app: App,
+    private readonly title: string,
+    private readonly changes: readonly GitChange[],
+    initialMessage: string,
+    private readonly onSubmit: CommitSubmitHandler
+  ) {
+    super(app);
+    this.selected = new Set(changes);
+    this.message = initialMessage;
+  }
+
+  onOpen() {
+    this.titleEl.setText(this.title);
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl)
+      .setName(`${this.selected.size} of ${this.changes.length} files selected`)
+      .addButton((button) =>
+        button.setButtonText('Select all').onClick(() => {
+          this.changes.forEach((change) => this.selected.add(change));
+          this.render();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText('Select none').onClick(() => {
+          this.selected.clear();
+          this.render();
+        })
+      );
+
+    const list = contentEl.createDiv();
+    for (const change of this.changes) {
+      const description = change.originalPath
+        ? `${gitChangeKindLabels[change.kind]} from ${change.originalPath}`
+        : gitChangeKindLabels[change.kind];
+      new Setting(list)
+        .setName(change.path)
+        .setDesc(description)
+        .addToggle((toggle) =>
+          toggle.setValue(this.selected.has(change)).onChange((value) => {
+            if (value) {
+              this.selected.add(change);
+            } else {
+              this.selected.delete(change);
+            }
+            this.render();
+          })
+        );
+    }
+
+    new Setting(contentEl).setName('Commit message').addTextArea((text) =>
+      text.setValue(this.message).onChange((value) => {
+        this.message = value;
+      })
+    );
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText('Cancel').onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(this.title)
+          .setCta()
+          .setDisabled(this.selected.size === 0)
+          .onClick(() => {
+            const message = this.message.replace(/[\r\n]+/g, ' ').trim();
+            if (this.selected.size === 0 || !message) {
+              return;
+            }
+            this.close();
+            this.onSubmit(
+              this.changes.filter((change) => this.selected.has(change)),
+              message
+            );
+          })
+      );
+  }
+}
@@ -0,0 +1,164 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+import {
+  getAbortSteps,
+  getCompleteSteps,
+  getMarkResolvedSteps,
+  getTakeSideSteps,
+  hasConflictMarkers,
+  readConflictState,
+  readConflictVersions,
+  type ConflictSide,
+  type ConflictState
+} from './conflicts';
+import { describeGitOutcome, type GitStepsResult } from './git';
+
+type GitStepsRunner = (steps: string[][], label: string) => Promise<GitStepsResult>;
+
+const LABEL = 'Git: resolve merge conflicts';
+
+export class ConflictModal extends Modal {
+  private busy = false;
+
+  constructor(
+    app: App,
+    private readonly cwd: string,
+    private state: ConflictState,
+    private readonly runSteps: GitStepsRunner
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText('Merge conflicts');
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const operation = this.state.kind === 'rebase' ? 'rebase' : 'merge';
+    const remaining = this.state.paths.length;
+    contentEl.createEl('p', {
+      text:
+        remaining > 0
+          ? `${remaining} ${remaining === 1 ? 'file has' : 'files have'} conflicting changes. Keep your version or the remote one, or edit the note and mark it resolved.`
+          : `All conflicts are resolved. Complete the ${operation} to finish the pull.`
+    });
+
+    for (const path of this.state.paths) {
+      const setting = new Setting(contentEl);
+      setting.nameEl.createEl('a', { text: path, href: '#' }).addEventListener('click', (event) => {
+        event.preventDefault();
+        this.close();
+        void this.app.workspace.openLinkText(path, '', false);
+      });
+      setting
+        .addButton((button) =>
+          button.setButtonText('Take mine').onClick(() => {
+            void this.takeSide(path, 'mine');
+          })
+        )
+        .addButton((button) =>
+          button.setButtonText('Take theirs').onClick(() => {
+            void this.takeSide(path, 'theirs');
+          })
+        )
+        .addButton((button) =>
+          button.setButtonText('Mark resolved').onClick(() => {
+            void this.markResolved(path);
+          })
+        );
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(`Abort ${operation}`)
+          .setWarning()
+          .onClick(() => {
+            void this.finish(getAbortSteps(this.state.kind), `The ${operation} was aborted.`);
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(`Complete ${operation}`)
+          .setCta()
+          .setDisabled(remaining > 0)
+          .onClick(() => {
+            void this.finish(getCompleteSteps(this.state.kind), `The ${operation} is complete.`);
+          })
+      );
+  }
+
+  private async takeSide(path: string, side: ConflictSide) {
+    const versions = await readConflictVersions(this.cwd, path);
+    if ('error' in versions) {
+      new Notice(`Unable to read the versions of ${path}. ${versions.error}`);
+      return;
+    }
+    await this.apply(getTakeSideSteps(path, side, this.state.kind, versions));
+  }
+
+  private async markResolved(path: string) {
+    try {
+      const content = await this.app.vault.adapter.read(path);
+      if (hasConflictMarkers(content)) {
+        new Notice(`${path} still contains conflict markers. Edit the note first.`);
+        return;
+      }
+    } catch {
+      // Files deleted on one side cannot be read; staging them records the deletion.
+    }
+    await this.apply(getMarkResolvedSteps(path));
+  }
+
+  private async apply(steps: string[][]) {
+    const result = await this.run(steps);
+    if (result && result.outcome !== 'success') {
+      new Notice(describeGitOutcome(LABEL, result));
+    }
+    await this.refresh();
+  }
+
+  private async finish(steps: string[][], message: string) {
+    const result = await this.run(steps);
+    if (!result) {
+      return;
+    }
+    if (result.outcome !== 'success') {
+      new Notice(describeGitOutcome(LABEL, result));
+      await this.refresh();
+      return;
+    }
+    new Notice(message);
+    this.close();
+  }
+
+  private async run(steps: string[][]): Promise<GitStepsResult | null> {
+    if (this.busy) {
+      return null;
+    }
+    this.busy = true;
+    try {
+      return await this.runSteps(steps, LABEL);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private async refresh() {
+    const state = await readConflictState(this.cwd);
+    if ('error' in state) {
+      new Notice(`Unable to read merge conflicts. ${state.error}`);
+      return;
+    }
+    this.state = state;
+    this.render();
+  }
+}
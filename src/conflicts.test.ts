@@ -0,0 +1,128 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  getAbortSteps,
+  getCompleteSteps,
+  getTakeSideSteps,
+  hasConflictMarkers,
+  readConflictState,
+  readConflictVersions,
+  type MergeKind
+} from './conflicts';
+import { runGitSteps } from './git';
+
+const NOTE = 'Daily [1].md';
+
+let repository = '';
+
+const git = (...args: string[]) =>
+  execFileSync('git', args, { cwd: repository, stdio: 'pipe' }).toString();
+
+const commitNote = (content: string, message: string) => {
+  writeFileSync(join(repository, NOTE), content);
+  git('add', '--all');
+  git('commit', '-q', '-m', message);
+};
+
+// Builds a repository whose `main` and `remote` branches both changed the note, then starts the
+// same merge or rebase that `git pull` would, with `main` holding the local changes. With
+// `deleteMine` the local change deletes the note instead.
+const createConflict = (kind: MergeKind, deleteMine = false) => {
+  repository = mkdtempSync(join(tmpdir(), 'open-in-terminal-conflicts-'));
+  git('init', '-q', '-b', 'main');
+  commitNote('base\n', 'base');
+  git('checkout', '-q', '-b', 'remote');
+  commitNote('theirs\n', 'remote change');
+  git('checkout', '-q', 'main');
+  if (deleteMine) {
+    git('rm', '-q', '--', NOTE);
+    git('commit', '-q', '-m', 'local deletion');
+  } else {
+    commitNote('mine\n', 'local change');
+  }
+  expect(() => git(kind, 'remote')).toThrow();
+};
+
+beforeAll(() => {
+  process.env.GIT_AUTHOR_NAME = 'Test';
+  process.env.GIT_AUTHOR_EMAIL = 'test@example.com';
+  process.env.GIT_COMMITTER_NAME = 'Test';
+  process.env.GIT_COMMITTER_EMAIL = 'test@example.com';
+  process.env.GIT_CONFIG_NOSYSTEM = '1';
+});
+
+afterEach(() => {
+  if (repository) {
+    rmSync(repository, { recursive: true, force: true });
+    repository = '';
+  }
+});
+
+describe.each(['merge', 'rebase'] as const)('resolving a %s conflict', (kind) => {
+  it('detects the conflicted note and the operation in progress', async () => {
+    createConflict(kind);
+    expect(await readConflictState(repository)).toEqual({ kind, paths: [NOTE] });
+    expect(hasConflictMarkers(readFileSync(join(repository, NOTE), 'utf8'))).toBe(true);
+  });
+
+  it.each([
+    ['mine', 'mine\n'],
+    ['theirs', 'theirs\n']
+  ] as const)('keeps %s and completes the pull', async (side, expected) => {
+    createConflict(kind);
+    const versions = await readConflictVersions(repository, NOTE);
+    expect(versions).toEqual({ ours: true, theirs: true });
+    if ('error' in versions) {
+      return;
+    }
+    const taken = await runGitSteps(repository, getTakeSideSteps(NOTE, side, kind, versions));
+    expect(taken.outcome).toBe('success');
+    expect(readFileSync(join(repository, NOTE), 'utf8')).toBe(expected);
+    expect(await readConflictState(repository)).toEqual({ kind, paths: [] });
+
+    const completed = await runGitSteps(repository, getCompleteSteps(kind));
+    expect(completed.outcome).toBe('success');
+    expect(await readConflictState(repository)).toEqual({ kind: null, paths: [] });
+  });
+
+  it.each([
+    ['mine', false],
+    ['theirs', true]
+  ] as const)('keeps %s when the local side deleted the note', async (side, exists) => {
+    createConflict(kind, true);
+    expect(await readConflictState(repository)).toEqual({ kind, paths: [NOTE] });
+    const versions = await readConflictVersions(repository, NOTE);
+    expect(versions).toEqual(
+      kind === 'rebase' ? { ours: true, theirs: false } : { ours: false, theirs: true }
+    );
+    if ('error' in versions) {
+      return;
+    }
+    const taken = await runGitSteps(repository, getTakeSideSteps(NOTE, side, kind, versions));
+    expect(taken.outcome).toBe('success');
+    expect(existsSync(join(repository, NOTE))).toBe(exists);
+
+    const completed = await runGitSteps(repository, getCompleteSteps(kind));
+    expect(completed.outcome).toBe('success');
+    expect(await readConflictState(repository)).toEqual({ kind: null, paths: [] });
+  });
+
+  it('aborts back to the local version', async () => {
+    createConflict(kind);
+    const aborted = await runGitSteps(repository, getAbortSteps(kind));
+    expect(aborted.outcome).toBe('success');
+    expect(readFileSync(join(repository, NOTE), 'utf8')).toBe('mine\n');
+    expect(await readConflictState(repository)).toEqual({ kind: null, paths: [] });
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('ignores notes that only mention markers inline', () => {
+    expect(hasConflictMarkers('Use <<<<<<< and >>>>>>> to mark conflicts.')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+
+import { runGit, type GitStepsResult } from './git';
+
+/** How the current conflicts came about; a pull either merges or rebases. */
+export type MergeKind = 'merge' | 'rebase';
+
+export type ConflictState = {
+  kind: MergeKind | null;
+  // Conflicted paths relative to the vault, as reported by `git diff --relative`.
+  paths: string[];
+};
+
+export type ConflictSide = 'mine' | 'theirs';
+
+/**
+ * Which of git's sides of a conflicted file have a version. A side that deleted or never added
+ * the file has none.
+ */
+export type ConflictVersions = {
+  ours: boolean;
+  theirs: boolean;
+};
+
+const toLiteralPathspec = (path: string): string => `:(literal)${path}`;
+
+const gitPathExists = async (cwd: string, name: string): Promise<boolean> => {
+  const result = await runGit(cwd, ['rev-parse', '--git-path', name]);
+  return result.code === 0 && existsSync(resolve(cwd, result.stdout.trim()));
+};
+
+const readMergeKind = async (cwd: string): Promise<MergeKind | null> => {
+  if ((await gitPathExists(cwd, 'rebase-merge')) || (await gitPathExists(cwd, 'rebase-apply'))) {
+    return 'rebase';
+  }
+  const mergeHead = await runGit(cwd, ['rev-parse', '-q', '--verify', 'MERGE_HEAD']);
+  return mergeHead.code === 0 ? 'merge' : null;
+};
+
+export const readConflictState = async (
+  cwd: string
+): Promise<ConflictState | { error: string }> => {
+  const result = await runGit(cwd, ['diff', '--name-only', '--diff-filter=U', '--relative', '-z']);
+  if (result.code !== 0) {
+    return { error: result.stderr.trim() || 'git diff failed.' };
+  }
+  return {
+    kind: await readMergeKind(cwd),
+    paths: result.stdout.split('\0').filter((path) => path.length > 0)
+  };
+};
+
+/**
+ * Checks that no pull stopped partway before everything is committed, since the commit would
+ * record the conflict markers. Returns the result to report instead of committing, or null.
+ */
+export const checkUnfinishedMerge = async (cwd: string): Promise<GitStepsResult | null> => {
+  const args = ['diff', '--name-only', '--diff-filter=U'];
+  const state = await readConflictState(cwd);
+  if ('error' in state) {
+    return { outcome: 'error', args, result: { code: null, stdout: '', stderr: state.error } };
+  }
+  if (state.kind === null && state.paths.length === 0) {
+    return null;
+  }
+  const stderr = `A ${state.kind ?? 'merge'} is in progress. Resolve its conflicts and complete it first.`;
+  return { outcome: 'conflict', args, result: { code: null, stdout: '', stderr } };
+};
+
+/** Reads the unmerged index entries of a file: stage 2 holds ours, stage 3 theirs. */
+export const readConflictVersions = async (
+  cwd: string,
+  path: string
+): Promise<ConflictVersions | { error: string }> => {
+  const result = await runGit(cwd, ['ls-files', '--unmerged', '-z', '--', toLiteralPathspec(path)]);
+  if (result.code !== 0) {
+    return { error: result.stderr.trim() || 'git ls-files failed.' };
+  }
+  const stages = result.stdout
+    .split('\0')
+    .map((entry) => /^\d+ [0-9a-f]+ (\d)\t/.exec(entry)?.[1])
+    .filter((stage): stage is string => stage !== undefined);
+  return { ours: stages.includes('2'), theirs: stages.includes('3') };
+};
+
+/**
+ * Resolves a conflict by keeping one side of a file, which deletes it when that side has no
+ * version. During a rebase git replays the local commits on top of the upstream ones, so "ours"
+ * is the upstream side and "theirs" the local one.
+ */
+export const getTakeSideSteps = (
+  path: string,
+  side: ConflictSide,
+  kind: MergeKind | null,
+  versions: ConflictVersions
+): string[][] => {
+  const takesOurs = (side === 'mine') !== (kind === 'rebase');
+  const pathspec = toLiteralPathspec(path);
+  if (!(takesOurs ? versions.ours : versions.theirs)) {
+    return [['rm', '--quiet', '--', pathspec]];
+  }
+  return [
+    ['checkout', takesOurs ? '--ours' : '--theirs', '--', pathspec],
+    ['add', '--', pathspec]
+  ];
+};
+
+export const getMarkResolvedSteps = (path: string): string[][] => [
+  ['add', '--', toLiteralPathspec(path)]
+];
+
+export const getAbortSteps = (kind: MergeKind | null): string[][] =>
+  kind === 'rebase' ? [['rebase', '--abort']] : [['merge', '--abort']];
+
+/** Concludes the merge or rebase once every conflict is resolved, without opening an editor. */
+export const getCompleteSteps = (kind: MergeKind | null): string[][] =>
+  kind === 'rebase'
+    ? [['-c', 'core.editor=true', 'rebase', '--continue']]
+    : [['commit', '--no-edit']];
+
+export const hasConflictMarkers = (content: string): boolean =>
+  /^<{7}(?: |$)/m.test(content) && /^>{7}(?: |$)/m.test(content);
@@ -0,0 +1,40 @@
+import type { Menu, MenuItem } from 'obsidian';
+
+import type { TerminalLaunchTarget } from './targets';
+
+type SubmenuItem = MenuItem & {
+  setSubmenu: () => Menu;
+};
+
+const resolveSubmenu = (item: MenuItem): Menu | null => {
+  const maybeSubmenu = item as Partial<SubmenuItem>;
+  if (typeof maybeSubmenu.setSubmenu === 'function') {
+    return maybeSubmenu.setSubmenu.call(item);
+  }
+  return null;
+};
+
+export const addLaunchTargetMenu = (
+  menu: Menu,
+  targets: readonly TerminalLaunchTarget[],
+  onSelect: (target: TerminalLaunchTarget) => void
+) => {
+  if (targets.length === 0) {
+    return;
+  }
+
+  menu.addItem((item) => {
+    item.setTitle('Open in Terminal here').setIcon('terminal-square').setSection('open');
+    const submenu = resolveSubmenu(item);
+    if (!submenu) {
+      // Older Obsidian builds have no submenus; fall back to the default target.
+      item.onClick(() => onSelect(targets[0]));
+      return;
+    }
+    for (const target of targets) {
+      submenu.addItem((subItem) =>
+        subItem.setTitle(target.commandName).onClick(() => onSelect(target))
+      );
+    }
+  });
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  checkExecutable,
+  formatExecutableCheck,
+  formatLaunchPreview,
+  getCommandExecutable,
+  maskSecrets,
+  parseVersionOutput
+} from './diagnostics';
+
+describe('getCommandExecutable', () => {
+  it('returns the first word of the command', () => {
+    expect(getCommandExecutable('claude --continue')).toBe('claude');
+    expect(getCommandExecutable('  /usr/local/bin/codex  ')).toBe('/usr/local/bin/codex');
+  });
+
+  it('skips leading variable assignments and unquotes the program', () => {
+    expect(getCommandExecutable('ANTHROPIC_MODEL=opus FOO=1 claude')).toBe('claude');
+    expect(getCommandExecutable('"/Applications/My Tool/bin/tool" --flag')).toBe(
+      '/Applications/My Tool/bin/tool'
+    );
+  });
+
+  it('returns null when the program is not fixed', () => {
+    expect(getCommandExecutable('{command}')).toBeNull();
+    expect(getCommandExecutable('$EDITOR {file}')).toBeNull();
+    expect(getCommandExecutable('(cd src && make)')).toBeNull();
+    expect(getCommandExecutable('   ')).toBeNull();
+  });
+});
+
+describe('parseVersionOutput', () => {
+  it('keeps the first non-empty line', () => {
+    expect(parseVersionOutput('\n  tool 1.2.3  \nbuilt today\n')).toBe('tool 1.2.3');
+    expect(parseVersionOutput('\r\n')).toBeUndefined();
+  });
+
+  it('shortens long lines', () => {
+    const version = parseVersionOutput('x'.repeat(200));
+    expect(version).toHaveLength(80);
+    expect(version?.endsWith('…')).toBe(true);
+  });
+});
+
+describe('formatExecutableCheck', () => {
+  it('describes found and missing programs', () => {
+    expect(formatExecutableCheck({ label: 'Tool', name: 'tool', found: false })).toBe(
+      'tool: not found'
+    );
+    expect(
+      formatExecutableCheck({
+        label: 'Tool',
+        name: 'tool',
+        found: true,
+        path: '/usr/bin/tool',
+        version: 'tool 1.0'
+      })
+    ).toBe('tool: found at /usr/bin/tool (tool 1.0)');
+    expect(formatExecutableCheck({ label: 'Terminal', name: 'Ghostty', found: true })).toBe(
+      'Ghostty: found'
+    );
+  });
+});
+
+describe('checkExecutable', () => {
+  const env = { PATH: process.env.PATH ?? '/usr/bin:/bin' };
+
+  it('finds programs on the path', async () => {
+    const check = await checkExecutable('Shell', 'sh', 'posix', env, false);
+    expect(check.found).toBe(true);
+    expect(check.path).toMatch(/\/sh$/);
+    expect(check.version).toBeUndefined();
+  });
+
+  it('reports missing programs', async () => {
+    await expect(
+      checkExecutable('Tool', 'open-in-terminal-missing-tool', 'posix', env, true)
+    ).resolves.toEqual({ label: 'Tool', name: 'open-in-terminal-missing-tool', found: false });
+  });
+});
+
+describe('launch previews', () => {
+  it('lists the command, script and environment with secrets masked', () => {
+    const preview = formatLaunchPreview({
+      terminalApp: 'Terminal',
+      cwd: '/vault',
+      command: 'open -a Terminal /tmp/launch.command',
+      script: '#!/bin/bash\nexport API_KEY=sk-123\nclaude',
+      env: { API_KEY: 'sk-123', EDITOR: 'vim' }
+    });
+    expect(maskSecrets(preview, ['sk-123', ''])).toBe(
+      [
+        'Terminal app: Terminal',
+        'Working directory: /vault',
+        '',
+        'Command:',
+        'open -a Terminal /tmp/launch.command',
+        '',
+        'Script:',
+        '#!/bin/bash',
+        'export API_KEY=********',
+        'claude',
+        '',
+        'Environment:',
+        'API_KEY=********',
+        'EDITOR=vim'
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { runProcess } from './process';
+
+/** Where an executable is looked up: the local PATH, Windows' PATH, or the PATH inside WSL. */
+export type LookupPlatform = 'posix' | 'win' | 'wsl' | 'macos-app';
+
+export type ExecutableCheck = {
+  label: string;
+  name: string;
+  found: boolean;
+  path?: string;
+  version?: string;
+};
+
+const LOOKUP_TIMEOUT_MS = 5_000;
+const MAX_VERSION_LENGTH = 80;
+
+/**
+ * Returns the program that a target command starts: the first word after any leading
+ * `NAME=value` assignments, without its quotes. Commands that start with a placeholder or a
+ * shell construct have no fixed program and return null.
+ */
+export const getCommandExecutable = (command: string): string | null => {
+  const words = command.trim().match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+  for (const word of words) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      continue;
+    }
+    const unquoted = word.replace(/^(["'])(.*)\1$/, '$2');
+    return unquoted && !/[{}()$`|&;<>]/.test(unquoted) ? unquoted : null;
+  }
+  return null;
+};
+
+/** The first line that a `--version` run printed, shortened for display. */
+export const parseVersionOutput = (output: string): string | undefined => {
+  const line = output
+    .split(/\r?\n/)
+    .map((entry) => entry.trim())
+    .find((entry) => entry.length > 0);
+  if (!line) {
+    return undefined;
+  }
+  return line.length > MAX_VERSION_LENGTH ? `${line.slice(0, MAX_VERSION_LENGTH - 1)}…` : line;
+};
+
+const runLookup = (platform: LookupPlatform, name: string, env: Record<string, string>) => {
+  switch (platform) {
+    case 'win':
+      return runProcess('where.exe', [name], { env, timeoutMs: LOOKUP_TIMEOUT_MS });
+    case 'wsl':
+      return runProcess('wsl.exe', ['-e', 'sh', '-lc', 'command -v "$1"', 'sh', name], {
+        timeoutMs: LOOKUP_TIMEOUT_MS
+      });
+    case 'macos-app':
+      // Succeeds when Launch Services knows the app, without opening it.
+      return runProcess('open', ['-Ra', name], { env, timeoutMs: LOOKUP_TIMEOUT_MS });
+    case 'posix':
+      return runProcess('/bin/sh', ['-c', 'command -v "$1"', 'sh', name], {
+        env,
+        timeoutMs: LOOKUP_TIMEOUT_MS
+      });
+  }
+};
+
+const readVersion = async (
+  platform: LookupPlatform,
+  path: string,
+  env: Record<string, string>
+): Promise<string | undefined> => {
+  const result =
+    platform === 'wsl'
+      ? await runProcess('wsl.exe', ['-e', path, '--version'], { timeoutMs: LOOKUP_TIMEOUT_MS })
+      : await runProcess(path, ['--version'], { env, timeoutMs: LOOKUP_TIMEOUT_MS });
+  if (result.code !== 0) {
+    return undefined;
+  }
+  return parseVersionOutput(result.stdout) ?? parseVersionOutput(result.stderr);
+};
+
+/**
+ * Looks up an executable the way the launched shell would find it. With `withVersion`, a found
+ * program is also run with `--version`; terminal apps are not, since some open a window instead.
+ */
+export const checkExecutable = async (
+  label: string,
+  name: string,
+  platform: LookupPlatform,
+  env: Record<string, string>,
+  withVersion: boolean
+): Promise<ExecutableCheck> => {
+  const result = await runLookup(platform, name, env);
+  if (result.code !== 0) {
+    return { label, name, found: false };
+  }
+  const path = platform === 'macos-app' ? undefined : parseVersionOutput(result.stdout);
+  const version = withVersion && path ? await readVersion(platform, path, env) : undefined;
+  return { label, name, found: true, path, version };
+};
+
+export const formatExecutableCheck = (check: ExecutableCheck): string => {
+  if (!check.found) {
+    return `${check.name}: not found`;
+  }
+  const location = check.path ? ` at ${check.path}` : '';
+  return check.version
+    ? `${check.name}: found${location} (${check.version})`
+    : `${check.name}: found${location}`;
+};
+
+export type LaunchPreview = {
+  terminalApp: string;
+  cwd: string;
+  command: string;
+  script?: string;
+  env: Record<string, string>;
+};
+
+/** Replaces each secret value with asterisks, so previews can be shared when debugging. */
+export const maskSecrets = (text: string, secrets: readonly string[]): string =>
+  secrets
+    .filter((secret) => secret.length > 0)
+    .reduce((masked, secret) => masked.split(secret).join('********'), text);
+
+export const formatLaunchPreview = (preview: LaunchPreview): string => {
+  const lines = [
+    `Terminal app: ${preview.terminalApp}`,
+    `Working directory: ${preview.cwd}`,
+    '',
+    'Command:',
+    preview.command
+  ];
+  if (preview.script !== undefined) {
+    lines.push('', 'Script:', preview.script);
+  }
+  const names = Object.keys(preview.env);
+  if (names.length > 0) {
+    lines.push('', 'Environment:', ...names.map((name) => `${name}=${preview.env[name]}`));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addWslEnvNames,
+  formatEnvLines,
+  parseEnvLines,
+  parseLoginPath,
+  readEnv,
+  readLoginShellPath
+} from './env';
+
+describe('parseEnvLines', () => {
+  it('reads NAME=value lines and keeps values as typed', () => {
+    expect(
+      parseEnvLines(
+        [
+          '# Claude',
+          'ANTHROPIC_MODEL=claude-sonnet',
+          '',
+          ' ANTHROPIC_CUSTOM_HEADERS = X-Team: notes=1',
+          'not a variable',
+          '1BAD=value',
+          'EMPTY='
+        ].join('\r\n')
+      )
+    ).toEqual({
+      ANTHROPIC_MODEL: 'claude-sonnet',
+      ANTHROPIC_CUSTOM_HEADERS: ' X-Team: notes=1',
+      EMPTY: ''
+    });
+  });
+
+  it('round-trips through formatEnvLines', () => {
+    const env = { A: '1', B_2: 'two words' };
+    expect(parseEnvLines(formatEnvLines(env))).toEqual(env);
+  });
+});
+
+describe('readEnv', () => {
+  it('drops entries that are not strings or have invalid names', () => {
+    expect(readEnv({ OK: 'yes', COUNT: 3, 'BAD-NAME': 'x' })).toEqual({ OK: 'yes' });
+    expect(readEnv('A=1')).toEqual({});
+  });
+});
+
+describe('readLoginShellPath', () => {
+  it('ignores what profile scripts print around the PATH', () => {
+    expect(
+      parseLoginPath(
+        'Welcome!\n__OPEN_IN_TERMINAL_PATH__/opt/homebrew/bin:/usr/bin__OPEN_IN_TERMINAL_PATH__'
+      )
+    ).toBe('/opt/homebrew/bin:/usr/bin');
+    expect(parseLoginPath('bash: no job control in this shell')).toBeNull();
+  });
+
+  it('reads the PATH of a real shell', async () => {
+    const path = await readLoginShellPath('/bin/sh');
+    expect(path?.split(':')).toContain('/usr/bin');
+  });
+});
+
+describe('addWslEnvNames', () => {
+  it('lists new variables in WSLENV and keeps the existing entries', () => {
+    expect(
+      addWslEnvNames({ API_KEY: 'x', PATH: '/bin', USERPROFILE: 'C:\\' }, 'USERPROFILE/p')
+    ).toEqual({
+      API_KEY: 'x',
+      PATH: '/bin',
+      USERPROFILE: 'C:\\',
+      WSLENV: 'USERPROFILE/p:API_KEY'
+    });
+    expect(addWslEnvNames({}, undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+import { runProcess } from './process';
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const isEnvName = (name: string): boolean => ENV_NAME_PATTERN.test(name);
+
+/**
+ * Reads `KEY=value` lines as entered in the settings. Blank lines and lines starting with `#`
+ * are skipped, as are lines without `=` or with a name that a shell could not export. Values
+ * are kept as typed, including spaces and further `=` signs.
+ */
+export const parseEnvLines = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const separator = trimmed.indexOf('=');
+    if (!trimmed || trimmed.startsWith('#') || separator < 0) {
+      continue;
+    }
+    const name = trimmed.slice(0, separator).trim();
+    if (isEnvName(name)) {
+      env[name] = trimmed.slice(separator + 1);
+    }
+  }
+  return env;
+};
+
+export const formatEnvLines = (env: Record<string, string>): string =>
+  Object.entries(env)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+
+/** Keeps the string entries of a stored environment whose names are valid. */
+export const readEnv = (value: unknown): Record<string, string> => {
+  const env: Record<string, string> = {};
+  if (typeof value !== 'object' || value === null) {
+    return env;
+  }
+  for (const [name, entry] of Object.entries(value)) {
+    if (typeof entry === 'string' && isEnvName(name)) {
+      env[name] = entry;
+    }
+  }
+  return env;
+};
+
+const PATH_MARKER = '__OPEN_IN_TERMINAL_PATH__';
+const LOGIN_SHELL_TIMEOUT_MS = 10_000;
+
+/**
+ * Returns the arguments that make a shell print its PATH between markers, so output from
+ * profile scripts around it is ignored. fish keeps PATH as a list and joins it itself.
+ */
+export const buildLoginPathArgs = (shell: string): string[] => {
+  const path = /(^|\/)fish$/.test(shell) ? '(string join : $PATH)' : '"$PATH"';
+  return ['-ilc', `printf '%s%s%s' ${PATH_MARKER} ${path} ${PATH_MARKER}`];
+};
+
+export const parseLoginPath = (output: string): string | null => {
+  const start = output.indexOf(PATH_MARKER);
+  const end = output.indexOf(PATH_MARKER, start + PATH_MARKER.length);
+  if (start < 0 || end < 0) {
+    return null;
+  }
+  const path = output.slice(start + PATH_MARKER.length, end).trim();
+  return path || null;
+};
+
+/**
+ * Asks an interactive login shell for its PATH. Apps started from the dock or a desktop entry
+ * miss what shell profiles add, such as Homebrew or nvm directories, so tools are not found.
+ */
+export const readLoginShellPath = async (shell: string): Promise<string | null> => {
+  const result = await runProcess(shell, buildLoginPathArgs(shell), {
+    timeoutMs: LOGIN_SHELL_TIMEOUT_MS
+  });
+  return parseLoginPath(result.stdout);
+};
+
+/**
+ * Adds variables to WSLENV so that wsl.exe passes them from Windows into the Linux
+ * environment; Windows variables do not cross over otherwise.
+ */
+export const addWslEnvNames = (
+  env: Record<string, string>,
+  current: string | undefined
+): Record<string, string> => {
+  const names = (current ?? '').split(':').filter((name) => name.length > 0);
+  const listed = new Set(names.map((name) => name.split('/')[0]));
+  for (const name of Object.keys(env)) {
+    // PATH has to stay the Linux one inside WSL.
+    if (name !== 'PATH' && name !== 'WSLENV' && !listed.has(name)) {
+      names.push(name);
+    }
+  }
+  return names.length > 0 ? { ...env, WSLENV: names.join(':') } : env;
+};
@@ -0,0 +1,65 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks before folder profiles that have not been trusted change a launch. `onChoose` gets
+ * whether to trust the files, or null when the launch is cancelled.
+ */
+export class ConfirmFolderProfileModal extends Modal {
+  private chosen = false;
+
+  constructor(
+    app: App,
+    private readonly paths: readonly string[],
+    private readonly targetName: string,
+    private readonly command: string | undefined,
+    private readonly onChoose: (trust: boolean | null) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Use folder profile?');
+    contentEl.createEl('p', {
+      text: `${this.targetName} would use settings from these folder profiles. They can change its command, environment, shell and terminal application. Only use profiles you trust.`
+    });
+    const list = contentEl.createEl('ul');
+    for (const path of this.paths) {
+      list.createEl('li', { text: path });
+    }
+    contentEl.createEl('pre', { text: this.command ?? 'Interactive shell' });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText('Cancel').onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText('Trust profiles and run').onClick(() => {
+          this.choose(true);
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Run once')
+          .setCta()
+          .onClick(() => {
+            this.choose(false);
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.chosen) {
+      this.onChoose(null);
+    }
+  }
+
+  private choose(trust: boolean) {
+    this.chosen = true;
+    this.close();
+    this.onChoose(trust);
+  }
+}
@@ -0,0 +1,280 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  applyFolderProfile,
+  createFolderTargets,
+  FolderProfileStore,
+  getProfileFolders,
+  mergeFolderProfiles,
+  parseFolderProfile,
+  resolveProfileCwd,
+  validateFolderProfile,
+  type FolderProfile
+} from './folder-profiles';
+import type { TerminalLaunchTarget } from './targets';
+
+const claude: TerminalLaunchTarget = {
+  id: 'open-claude',
+  commandName: 'Open in Claude Code',
+  action: 'terminal',
+  toolCommand: 'claude',
+  launchMode: 'external',
+  env: { MODEL: 'opus', KEEP: '1' },
+  terminalTargetId: 'open-claude'
+};
+
+describe('validateFolderProfile', () => {
+  it('reads folder-wide settings and targets', () => {
+    expect(
+      validateFolderProfile({
+        cwd: 'app',
+        env: { NODE_ENV: 'development' },
+        terminalApp: 'kitty',
+        targets: {
+          ' Tests ': { command: ' npm test ', env: { CI: '1' } },
+          'Claude Code': { terminalApp: { macos: 'iTerm' }, shell: '/bin/zsh' }
+        }
+      })
+    ).toEqual({
+      profile: {
+        cwd: 'app',
+        env: { NODE_ENV: 'development' },
+        terminalApp: { macos: 'kitty', win: 'kitty', linux: 'kitty' },
+        targets: {
+          Tests: { env: { CI: '1' }, command: 'npm test' },
+          'Claude Code': {
+            env: {},
+            terminalApp: { macos: 'iTerm' },
+            shell: '/bin/zsh',
+            command: undefined
+          }
+        }
+      }
+    });
+  });
+
+  it('reports the first problem with its location', () => {
+    expect(validateFolderProfile([])).toEqual({ error: 'The file must contain an object.' });
+    expect(validateFolderProfile({ cwdd: 'app' })).toEqual({ error: "Unknown setting 'cwdd'." });
+    expect(validateFolderProfile({ env: { '1X': 'a' } })).toEqual({
+      error: "'env.1X' is not a valid variable name."
+    });
+    expect(validateFolderProfile({ targets: { Tests: { command: 3 } } })).toEqual({
+      error: "'targets.Tests.command' must be a string."
+    });
+    expect(validateFolderProfile({ targets: { Tests: { env: { A: 1 } } } })).toEqual({
+      error: "'targets.Tests.env.A' must be a string."
+    });
+    expect(validateFolderProfile({ terminalApp: { linux: 'kitty', bsd: 'xterm' } })).toEqual({
+      error: "'terminalApp' takes macos, win and linux, not 'bsd'."
+    });
+    expect(validateFolderProfile({ targets: ['Tests'] })).toEqual({
+      error: "'targets' must map target names to their settings."
+    });
+  });
+
+  it('reports JSON syntax errors', () => {
+    expect(parseFolderProfile('{ "cwd": ', '.obsidian-terminal.json')).toHaveProperty('error');
+    expect(parseFolderProfile('{ "shell": "zsh" }', '.obsidian-terminal.json')).toEqual({
+      profile: { env: {}, shell: 'zsh', targets: {} }
+    });
+  });
+});
+
+describe('resolving profiles for a folder', () => {
+  it('lists the folders from the vault root down', () => {
+    expect(getProfileFolders('')).toEqual(['']);
+    expect(getProfileFolders('projects/app/notes')).toEqual([
+      '',
+      'projects',
+      'projects/app',
+      'projects/app/notes'
+    ]);
+  });
+
+  it('resolves cwd against the profile folder and keeps it inside the vault', () => {
+    expect(resolveProfileCwd('projects/app', '.')).toBe('projects/app');
+    expect(resolveProfileCwd('projects/app', '../lib/')).toBe('projects/lib');
+    expect(resolveProfileCwd('projects', '..')).toBe('');
+    expect(resolveProfileCwd('', '..')).toBeNull();
+    expect(resolveProfileCwd('projects', '/etc')).toBeNull();
+    expect(resolveProfileCwd('projects', 'C:\\Users')).toBeNull();
+  });
+
+  it('lets deeper profiles win and merges target entries by name', () => {
+    const root: FolderProfile = {
+      env: { A: 'root', B: 'root' },
+      shell: '/bin/bash',
+      targets: { tests: { env: { T: 'root' }, command: 'npm test' } }
+    };
+    const app: FolderProfile = {
+      cwd: '.',
+      env: { B: 'app' },
+      targets: { Tests: { cwd: 'src', env: {} } }
+    };
+    expect(
+      mergeFolderProfiles([
+        { folder: '', path: '.obsidian-terminal.json', profile: root },
+        { folder: 'app', path: 'app/.obsidian-terminal.yaml', profile: app }
+      ])
+    ).toEqual({
+      profile: {
+        cwd: 'app',
+        env: { A: 'root', B: 'app' },
+        terminalApp: undefined,
+        shell: '/bin/bash',
+        targets: {
+          tests: {
+            cwd: 'app/src',
+            env: { T: 'root' },
+            terminalApp: undefined,
+            shell: undefined,
+            command: 'npm test'
+          }
+        }
+      }
+    });
+    expect(
+      mergeFolderProfiles([
+        {
+          folder: '',
+          path: '.obsidian-terminal.json',
+          profile: { env: {}, cwd: '..', targets: {} }
+        }
+      ])
+    ).toEqual({
+      error: ".obsidian-terminal.json: 'cwd' must be a relative path inside the vault."
+    });
+  });
+});
+
+describe('applyFolderProfile', () => {
+  it('lays the profile and the entry named after the target over it', () => {
+    const profile: FolderProfile = {
+      cwd: 'app',
+      env: { MODEL: 'sonnet', FOLDER: '1' },
+      targets: {
+        'claude code': {
+          command: 'claude --continue',
+          env: { MODEL: 'haiku' },
+          terminalApp: { linux: 'kitty' }
+        }
+      }
+    };
+    expect(applyFolderProfile(claude, profile)).toEqual({
+      target: {
+        ...claude,
+        toolCommand: 'claude --continue',
+        env: { MODEL: 'haiku', KEEP: '1', FOLDER: '1' },
+        terminalApp: { linux: 'kitty' },
+        shell: undefined
+      },
+      cwd: 'app'
+    });
+  });
+
+  it('leaves targets without an entry to the folder-wide settings', () => {
+    const applied = applyFolderProfile(claude, { env: { FOLDER: '1' }, targets: {} });
+    expect(applied.target.toolCommand).toBe('claude');
+    expect(applied.target.env).toEqual({ MODEL: 'opus', KEEP: '1', FOLDER: '1' });
+    expect(applied.cwd).toBeUndefined();
+  });
+});
+
+describe('createFolderTargets', () => {
+  it('adds the entries with a command that name no configured target', () => {
+    const profile: FolderProfile = {
+      env: {},
+      targets: {
+        'Claude Code': { env: {}, command: 'claude --continue' },
+        'Run tests': { env: {}, command: 'npm test' },
+        Docs: { env: {} }
+      }
+    };
+    const targets = createFolderTargets(profile, [claude], {
+      macOpenMode: 'tab',
+      launchMode: 'external'
+    });
+    expect(targets).toEqual([
+      {
+        id: 'folder-run-tests',
+        commandName: 'Open in Run tests',
+        action: 'terminal',
+        toolCommand: 'npm test',
+        macOpenMode: 'tab',
+        launchMode: 'external',
+        terminalTargetId: 'folder:Run tests'
+      }
+    ]);
+    expect(applyFolderProfile(targets[0], profile).target.toolCommand).toBe('npm test');
+  });
+});
+
+describe('FolderProfileStore', () => {
+  let vault: string | null = null;
+
+  afterEach(() => {
+    if (vault) {
+      rmSync(vault, { recursive: true, force: true });
+      vault = null;
+    }
+  });
+
+  it('reads the profiles on the way to a folder and rereads changed files', () => {
+    vault = mkdtempSync(join(tmpdir(), 'folder-profiles-'));
+    mkdirSync(join(vault, 'app', 'notes'), { recursive: true });
+    const rootProfile = join(vault, '.obsidian-terminal.json');
+    writeFileSync(rootProfile, JSON.stringify({ env: { A: 'root' } }));
+    writeFileSync(
+      join(vault, 'app', '.obsidian-terminal.json'),
+      JSON.stringify({ env: { B: 'app' } })
+    );
+    const store = new FolderProfileStore(vault);
+
+    expect(store.resolve('app/notes')).toMatchObject({ profile: { env: { A: 'root', B: 'app' } } });
+    expect(store.resolve('')).toMatchObject({ profile: { env: { A: 'root' } } });
+
+    writeFileSync(rootProfile, JSON.stringify({ env: { A: 1 } }));
+    const later = new Date(Date.now() + 10_000);
+    utimesSync(rootProfile, later, later);
+    expect(store.resolve('app')).toEqual({
+      error: ".obsidian-terminal.json: 'env.A' must be a string."
+    });
+
+    rmSync(rootProfile);
+    expect(store.resolve('app')).toMatchObject({ profile: { env: { B: 'app' } } });
+  });
+
+  it('lists the files it read with a hash of their content', () => {
+    vault = mkdtempSync(join(tmpdir(), 'folder-profiles-'));
+    mkdirSync(join(vault, 'app'));
+    const appProfile = join(vault, 'app', '.obsidian-terminal.json');
+    writeFileSync(join(vault, '.obsidian-terminal.json'), '{}');
+    writeFileSync(appProfile, JSON.stringify({ targets: { claude: { command: 'claude' } } }));
+    const store = new FolderProfileStore(vault);
+
+    const readFiles = () => {
+      const resolved = store.resolve('app');
+      if ('error' in resolved) {
+        throw new Error(resolved.error);
+      }
+      return resolved.files;
+    };
+    const before = readFiles();
+    expect(before.map((file) => file.path)).toEqual([
+      '.obsidian-terminal.json',
+      'app/.obsidian-terminal.json'
+    ]);
+
+    writeFileSync(appProfile, JSON.stringify({ targets: { claude: { command: 'rm -rf ~' } } }));
+    const later = new Date(Date.now() + 10_000);
+    utimesSync(appProfile, later, later);
+    const after = readFiles();
+    expect(after[0]).toEqual(before[0]);
+    expect(after[1].hash).not.toBe(before[1].hash);
+  });
+});
@@ -0,0 +1,334 @@
+import { createHash } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { join, posix } from 'path';
+
+import { parseYaml } from 'obsidian';
+
+import { isEnvName } from './env';
+import type { TerminalAppByPlatform } from './settings';
+import { getTerminalTargetTitle, type TerminalLaunchTarget } from './targets';
+
+/** Checked in this order; the first one found in a folder is used. */
+export const FOLDER_PROFILE_FILE_NAMES = [
+  '.obsidian-terminal.json',
+  '.obsidian-terminal.yaml',
+  '.obsidian-terminal.yml'
+];
+
+/** Settings that a folder profile lays over the user's, for a launch or for all of them. */
+export type FolderOverrides = {
+  // Vault-relative once profiles are merged; relative to the profile's folder as written.
+  cwd?: string;
+  env: Record<string, string>;
+  terminalApp?: TerminalAppByPlatform;
+  shell?: string;
+};
+
+export type FolderProfileTarget = FolderOverrides & {
+  command?: string;
+};
+
+export type FolderProfile = FolderOverrides & {
+  // Keyed by target name. Names of configured targets override them; others add targets.
+  targets: Record<string, FolderProfileTarget>;
+};
+
+export type FolderProfileResult = { profile: FolderProfile } | { error: string };
+
+/** A profile file that applies to a folder, with the hash of its content. */
+export type FolderProfileFile = { path: string; hash: string };
+
+export type ResolvedFolderProfile =
+  { profile: FolderProfile; files: FolderProfileFile[] } | { error: string };
+
+const OVERRIDE_KEYS = ['cwd', 'env', 'terminalApp', 'shell'];
+const PLATFORMS = ['macos', 'win', 'linux'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createFolderProfile = (): FolderProfile => ({ env: {}, targets: {} });
+
+const readOverrides = (
+  value: Record<string, unknown>,
+  allowedKeys: readonly string[],
+  at: string
+): { overrides: FolderOverrides } | { error: string } => {
+  const unknown = Object.keys(value).find((key) => !allowedKeys.includes(key));
+  if (unknown !== undefined) {
+    return { error: `Unknown setting '${at}${unknown}'.` };
+  }
+
+  const overrides: FolderOverrides = { env: {} };
+  for (const key of ['cwd', 'shell'] as const) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    if (typeof value[key] !== 'string') {
+      return { error: `'${at}${key}' must be a string.` };
+    }
+    overrides[key] = value[key];
+  }
+
+  if (value.env !== undefined) {
+    if (!isRecord(value.env)) {
+      return { error: `'${at}env' must map variable names to values.` };
+    }
+    for (const [name, entry] of Object.entries(value.env)) {
+      if (!isEnvName(name)) {
+        return { error: `'${at}env.${name}' is not a valid variable name.` };
+      }
+      if (typeof entry !== 'string') {
+        return { error: `'${at}env.${name}' must be a string.` };
+      }
+      overrides.env[name] = entry;
+    }
+  }
+
+  const terminalApp = value.terminalApp;
+  if (typeof terminalApp === 'string') {
+    overrides.terminalApp = { macos: terminalApp, win: terminalApp, linux: terminalApp };
+  } else if (isRecord(terminalApp)) {
+    overrides.terminalApp = {};
+    for (const [platform, app] of Object.entries(terminalApp)) {
+      if (!(PLATFORMS as readonly string[]).includes(platform)) {
+        return { error: `'${at}terminalApp' takes macos, win and linux, not '${platform}'.` };
+      }
+      if (typeof app !== 'string') {
+        return { error: `'${at}terminalApp.${platform}' must be a string.` };
+      }
+      overrides.terminalApp[platform as (typeof PLATFORMS)[number]] = app;
+    }
+  } else if (terminalApp !== undefined) {
+    return { error: `'${at}terminalApp' must be a string or a map of platforms to apps.` };
+  }
+  return { overrides };
+};
+
+/** Checks a parsed profile file and reports the first problem in it. */
+export const validateFolderProfile = (value: unknown): FolderProfileResult => {
+  if (!isRecord(value)) {
+    return { error: 'The file must contain an object.' };
+  }
+  const read = readOverrides(value, [...OVERRIDE_KEYS, 'targets'], '');
+  if ('error' in read) {
+    return read;
+  }
+  const profile: FolderProfile = { ...read.overrides, targets: {} };
+
+  if (value.targets !== undefined) {
+    if (!isRecord(value.targets)) {
+      return { error: "'targets' must map target names to their settings." };
+    }
+    for (const [name, entry] of Object.entries(value.targets)) {
+      const at = `targets.${name}.`;
+      if (!name.trim()) {
+        return { error: "'targets' has an entry without a name." };
+      }
+      if (!isRecord(entry)) {
+        return { error: `'targets.${name}' must be an object.` };
+      }
+      const target = readOverrides(entry, [...OVERRIDE_KEYS, 'command'], at);
+      if ('error' in target) {
+        return target;
+      }
+      if (entry.command !== undefined && typeof entry.command !== 'string') {
+        return { error: `'${at}command' must be a string.` };
+      }
+      profile.targets[name.trim()] = {
+        ...target.overrides,
+        command: typeof entry.command === 'string' ? entry.command.trim() || undefined : undefined
+      };
+    }
+  }
+  return { profile };
+};
+
+export const parseFolderProfile = (text: string, fileName: string): FolderProfileResult => {
+  let value: unknown;
+  try {
+    value = fileName.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return validateFolderProfile(value);
+};
+
+/** The vault root and each folder down to `folder`, whose profiles apply to it. */
+export const getProfileFolders = (folder: string): string[] => {
+  const parts = folder.split('/').filter((part) => part.length > 0);
+  return ['', ...parts.map((_, index) => parts.slice(0, index + 1).join('/'))];
+};
+
+/** Resolves a profile's `cwd` against the folder that holds the profile. */
+export const resolveProfileCwd = (folder: string, cwd: string): string | null => {
+  if (posix.isAbsolute(cwd) || /^[A-Za-z]:/.test(cwd)) {
+    return null;
+  }
+  const resolved = posix.normalize(posix.join(folder || '.', cwd));
+  if (resolved === '..' || resolved.startsWith('../')) {
+    return null;
+  }
+  return resolved === '.' ? '' : resolved.replace(/\/$/, '');
+};
+
+const mergeOverrides = <T extends FolderOverrides>(base: T, next: FolderOverrides): T => ({
+  ...base,
+  cwd: next.cwd ?? base.cwd,
+  env: { ...base.env, ...next.env },
+  terminalApp: next.terminalApp ?? base.terminalApp,
+  shell: next.shell ?? base.shell
+});
+
+const findProfileTargetName = (profile: FolderProfile, name: string): string | undefined =>
+  Object.keys(profile.targets).find((key) => key.toLowerCase() === name.toLowerCase());
+
+/**
+ * Merges the profiles from the vault root down to a folder; deeper profiles win. Each `cwd` is
+ * made vault-relative here, so later merges keep the folder it was written for.
+ */
+export const mergeFolderProfiles = (
+  sources: readonly { folder: string; path: string; profile: FolderProfile }[]
+): FolderProfileResult => {
+  let merged = createFolderProfile();
+  for (const { folder, path, profile } of sources) {
+    const resolve = <T extends FolderOverrides>(overrides: T): T | null => {
+      if (overrides.cwd === undefined) {
+        return overrides;
+      }
+      const cwd = resolveProfileCwd(folder, overrides.cwd);
+      return cwd === null ? null : { ...overrides, cwd };
+    };
+
+    const top = resolve(profile);
+    if (!top) {
+      return { error: `${path}: 'cwd' must be a relative path inside the vault.` };
+    }
+    merged = mergeOverrides(merged, top);
+    for (const [name, target] of Object.entries(profile.targets)) {
+      const resolved = resolve(target);
+      if (!resolved) {
+        return {
+          error: `${path}: 'targets.${name}.cwd' must be a relative path inside the vault.`
+        };
+      }
+      const key = findProfileTargetName(merged, name) ?? name;
+      const existing = merged.targets[key] ?? { env: {} };
+      merged.targets[key] = {
+        ...mergeOverrides(existing, resolved),
+        command: resolved.command ?? existing.command
+      };
+    }
+  }
+  return { profile: merged };
+};
+
+/**
+ * Lays a merged profile over a target. The profile's target entry with the target's name wins
+ * over the profile-wide settings; the returned `cwd` is vault-relative.
+ */
+export const applyFolderProfile = (
+  target: TerminalLaunchTarget,
+  profile: FolderProfile
+): { target: TerminalLaunchTarget; cwd?: string } => {
+  const name = findProfileTargetName(profile, getTerminalTargetTitle(target));
+  const entry = name === undefined ? undefined : profile.targets[name];
+  const overrides = entry ? mergeOverrides(profile, entry) : profile;
+  return {
+    target: {
+      ...target,
+      toolCommand: entry?.command ?? target.toolCommand,
+      env: { ...target.env, ...overrides.env },
+      terminalApp: overrides.terminalApp ?? target.terminalApp,
+      shell: overrides.shell ?? target.shell
+    },
+    cwd: overrides.cwd
+  };
+};
+
+/** Targets that a profile adds, as opposed to those whose configured settings it overrides. */
+export const createFolderTargets = (
+  profile: FolderProfile,
+  configured: readonly TerminalLaunchTarget[],
+  base: Pick<TerminalLaunchTarget, 'macOpenMode' | 'launchMode'>
+): TerminalLaunchTarget[] => {
+  const titles = new Set(configured.map((target) => getTerminalTargetTitle(target).toLowerCase()));
+  return Object.entries(profile.targets)
+    .filter(([name, entry]) => entry.command && !titles.has(name.toLowerCase()))
+    .map(([name, entry]) => ({
+      id: `folder-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      commandName: `Open in ${name}`,
+      action: 'terminal',
+      toolCommand: entry.command,
+      macOpenMode: base.macOpenMode,
+      launchMode: base.launchMode,
+      // Lets the target's title, and so its profile entry, be found by name.
+      terminalTargetId: `folder:${name}`
+    }));
+};
+
+type CachedProfile = {
+  mtimeMs: number;
+  hash: string;
+  result: FolderProfileResult;
+};
+
+/**
+ * Reads the profile files for launches. Files are checked on every lookup and parsed again
+ * when they change, so edits apply to the next launch. Dot files are not part of the vault
+ * index, so they are read from disk directly.
+ */
+export class FolderProfileStore {
+  private readonly cache = new Map<string, CachedProfile>();
+
+  constructor(private readonly basePath: string) {}
+
+  /** Merges the profiles for `folder` and lists the files they came from. */
+  resolve(folder: string): ResolvedFolderProfile {
+    const sources: { folder: string; path: string; profile: FolderProfile }[] = [];
+    const files: FolderProfileFile[] = [];
+    for (const profileFolder of getProfileFolders(folder)) {
+      const found = this.read(profileFolder);
+      if (!found) {
+        continue;
+      }
+      if ('error' in found.result) {
+        return { error: `${found.path}: ${found.result.error}` };
+      }
+      sources.push({ folder: profileFolder, path: found.path, profile: found.result.profile });
+      files.push({ path: found.path, hash: found.hash });
+    }
+    const merged = mergeFolderProfiles(sources);
+    return 'error' in merged ? merged : { profile: merged.profile, files };
+  }
+
+  private read(folder: string): { path: string; hash: string; result: FolderProfileResult } | null {
+    for (const fileName of FOLDER_PROFILE_FILE_NAMES) {
+      const path = folder ? `${folder}/${fileName}` : fileName;
+      const fullPath = join(this.basePath, path);
+      let mtimeMs: number;
+      try {
+        mtimeMs = statSync(fullPath).mtimeMs;
+      } catch {
+        this.cache.delete(path);
+        continue;
+      }
+      const cached = this.cache.get(path);
+      if (cached?.mtimeMs === mtimeMs) {
+        return { path, hash: cached.hash, result: cached.result };
+      }
+      let hash = '';
+      let result: FolderProfileResult;
+      try {
+        const text = readFileSync(fullPath, 'utf8');
+        hash = createHash('sha256').update(text).digest('hex');
+        result = parseFolderProfile(text, fileName);
+      } catch (error) {
+        result = { error: error instanceof Error ? error.message : String(error) };
+      }
+      this.cache.set(path, { mtimeMs, hash, result });
+      return { path, hash, result };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import type { GitResult } from './git';
+import { formatDate } from './template';
+
+const MAX_ENTRIES = 100;
+
+export type GitLogEntry = {
+  time: Date;
+  label: string;
+  args: readonly string[];
+  result: GitResult;
+};
+
+/** Keeps the output of recent background git runs so failures can be inspected later. */
+export class GitOutputLog {
+  private entries: GitLogEntry[] = [];
+
+  add(label: string, args: readonly string[], result: GitResult) {
+    this.entries.push({ time: new Date(), label, args, result });
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+  }
+
+  clear() {
+    this.entries = [];
+  }
+
+  getEntries(): readonly GitLogEntry[] {
+    return this.entries;
+  }
+}
+
+export class GitLogModal extends Modal {
+  constructor(
+    app: App,
+    private readonly log: GitOutputLog
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText('Git output log');
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const entries = this.log.getEntries();
+    new Setting(contentEl)
+      .setDesc(
+        entries.length === 0
+          ? 'No Git commands have run in the background yet.'
+          : 'Newest first. Output is kept until Obsidian restarts.'
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Clear')
+          .setDisabled(entries.length === 0)
+          .onClick(() => {
+            this.log.clear();
+            this.render();
+          })
+      );
+
+    for (const entry of [...entries].reverse()) {
+      const status = entry.result.code === 0 ? 'ok' : `exit code ${entry.result.code ?? 'none'}`;
+      new Setting(contentEl)
+        .setName(`git ${entry.args.join(' ')}`)
+        .setDesc(`${formatDate(entry.time, 'YYYY-MM-DD HH:mm:ss')} · ${entry.label} · ${status}`);
+      const output = [entry.result.stdout.trim(), entry.result.stderr.trim()]
+        .filter((text) => text.length > 0)
+        .join('\n');
+      if (output) {
+        contentEl.createEl('pre', { text: output });
+      }
+    }
+  }
+}
+
+/** Shows the output of a git command that only reports information, such as status or diff. */
+export class GitOutputModal extends Modal {
+  constructor(
+    app: App,
+    private readonly title: string,
+    private readonly output: string
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText(this.title);
+    this.contentEl.createEl('pre', { text: this.output.trimEnd() || 'No output.' });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  classifyGitResult,
+  describeGitOutcome,
+  formatCommitMessage,
+  formatGitCommandLine,
+  getChangePaths,
+  getDiffFileSteps,
+  getGitCommitSteps,
+  getSwitchBranchSteps,
+  parseBranchRefs,
+  parsePorcelainStatus,
+  type GitChange
+} from './git';
+import type { ShellDialect } from './quoting';
+
+const changes: GitChange[] = [
+  { path: 'Daily/2024-06-11.md', kind: 'modified' },
+  { path: 'Ideas.md', kind: 'untracked' },
+  { path: 'Archive/Old note.md', originalPath: 'Old note.md', kind: 'renamed' }
+];
+
+describe('parsePorcelainStatus', () => {
+  it('reads modified, added, deleted, untracked and conflicting entries', () => {
+    const output = [
+      ' M Daily/2024-06-11.md',
+      'A  New.md',
+      ' D Gone.md',
+      '?? Ideas.md',
+      'UU Conflict.md',
+      ''
+    ].join('\0');
+    expect(parsePorcelainStatus(output)).toEqual([
+      { path: 'Daily/2024-06-11.md', kind: 'modified' },
+      { path: 'New.md', kind: 'added' },
+      { path: 'Gone.md', kind: 'deleted' },
+      { path: 'Ideas.md', kind: 'untracked' },
+      { path: 'Conflict.md', kind: 'conflict' }
+    ]);
+  });
+
+  it('keeps the original path of renames and paths with spaces', () => {
+    const output = ['R  Archive/Old note.md', 'Old note.md', ' M  leading space.md', ''].join('\0');
+    expect(parsePorcelainStatus(output)).toEqual([
+      {
+        path: 'Archive/Old note.md',
+        originalPath: 'Old note.md',
+        kind: 'renamed'
+      },
+      { path: ' leading space.md', kind: 'modified' }
+    ]);
+  });
+
+  it('returns no changes for a clean tree', () => {
+    expect(parsePorcelainStatus('')).toEqual([]);
+  });
+});
+
+describe('formatCommitMessage', () => {
+  const now = new Date(2024, 5, 11, 9, 5, 3);
+
+  it('fills date, count and file placeholders', () => {
+    expect(formatCommitMessage('vault backup {{date}} ({{count}})', changes, now)).toBe(
+      'vault backup 2024-06-11 (3)'
+    );
+    expect(formatCommitMessage('{{date:YYYY-MM-DD HH:mm}}: {{files}}', changes, now)).toBe(
+      '2024-06-11 09:05: 2024-06-11, Ideas, Old note'
+    );
+  });
+
+  it('keeps the message on one line and never returns an empty message', () => {
+    expect(formatCommitMessage('first\nsecond', changes, now)).toBe('first second');
+    expect(formatCommitMessage('  ', changes, now)).toBe('update');
+  });
+});
+
+const buildGitCommitCommand = (message: string, dialect: ShellDialect, paths?: string[]) =>
+  formatGitCommandLine(getGitCommitSteps(message, paths), dialect);
+
+describe('git commit command line', () => {
+  it('stages everything when no paths are given', () => {
+    expect(buildGitCommitCommand("it's done", 'posix')).toBe(
+      `git add . && git commit -m 'it'\\''s done' && git push`
+    );
+  });
+
+  it('stages and commits only the selected paths, including both sides of a rename', () => {
+    expect(buildGitCommitCommand('update', 'posix', getChangePaths(changes))).toBe(
+      "git add -A -- ':(top,literal)Daily/2024-06-11.md' ':(top,literal)Ideas.md' " +
+        "':(top,literal)Old note.md' ':(top,literal)Archive/Old note.md' " +
+        "&& git commit -m update -- ':(top,literal)Daily/2024-06-11.md' ':(top,literal)Ideas.md' " +
+        "':(top,literal)Old note.md' ':(top,literal)Archive/Old note.md' && git push"
+    );
+  });
+
+  it('quotes the message and paths for cmd.exe', () => {
+    expect(buildGitCommitCommand('100% done', 'cmd', ['My note.md'])).toBe(
+      'git add -A -- ":(top,literal)My note.md" && git commit -m "100"^%" done" -- ' +
+        '":(top,literal)My note.md" && git push'
+    );
+  });
+});
+
+describe('getGitCommitSteps', () => {
+  it('leaves out the push for commit-only runs', () => {
+    expect(getGitCommitSteps('update', ['Ideas.md'], false)).toEqual([
+      ['add', '-A', '--', ':(top,literal)Ideas.md'],
+      ['commit', '-m', 'update', '--', ':(top,literal)Ideas.md']
+    ]);
+  });
+});
+
+describe('branches', () => {
+  const refs = [
+    'refs/heads/main',
+    'refs/heads/feature/notes',
+    'refs/remotes/origin/HEAD',
+    'refs/remotes/origin/main',
+    'refs/remotes/origin/drafts',
+    ''
+  ].join('\n');
+
+  it('lists local branches and remote branches without a local counterpart', () => {
+    expect(parseBranchRefs(refs)).toEqual([
+      { name: 'main' },
+      { name: 'feature/notes' },
+      { name: 'drafts', remote: 'origin' }
+    ]);
+  });
+
+  it('creates a tracking branch when switching to a remote branch', () => {
+    expect(getSwitchBranchSteps({ name: 'main' })).toEqual([['switch', 'main']]);
+    expect(getSwitchBranchSteps({ name: 'drafts', remote: 'origin' })).toEqual([
+      ['switch', '--track', '-c', 'drafts', 'origin/drafts']
+    ]);
+  });
+});
+
+describe('getDiffFileSteps', () => {
+  it('passes the note path as a literal pathspec', () => {
+    expect(formatGitCommandLine(getDiffFileSteps('Daily/[draft] *.md'), 'posix')).toBe(
+      "git diff HEAD -- ':(literal)Daily/[draft] *.md'"
+    );
+  });
+});
+
+describe('classifyGitResult', () => {
+  const failed = (stdout: string, stderr = '') => ({ code: 1, stdout, stderr });
+
+  it('treats a zero exit code as success even when the output mentions conflicts', () => {
+    expect(
+      classifyGitResult(['commit', '-m', 'fix conflicts'], {
+        ...failed('[main 1a2b3c] fix conflicts'),
+        code: 0
+      })
+    ).toBe('success');
+  });
+
+  it('recognizes merge conflicts, authentication failures and empty commits', () => {
+    expect(
+      classifyGitResult(['pull'], failed('CONFLICT (content): Merge conflict in Ideas.md'))
+    ).toBe('conflict');
+    expect(
+      classifyGitResult(
+        ['push'],
+        failed(
+          '',
+          "fatal: could not read Username for 'https://github.com': terminal prompts disabled"
+        )
+      )
+    ).toBe('auth');
+    expect(
+      classifyGitResult(['push'], failed('', 'git@github.com: Permission denied (publickey).'))
+    ).toBe('auth');
+    expect(
+      classifyGitResult(['commit', '-m', 'update'], failed('nothing to commit, working tree clean'))
+    ).toBe('nothing-to-commit');
+    expect(classifyGitResult(['push'], failed('', 'error: failed to push some refs'))).toBe(
+      'error'
+    );
+  });
+});
+
+describe('describeGitOutcome', () => {
+  it('reports the first line of the error output', () => {
+    const message = describeGitOutcome('Git: pull', {
+      outcome: 'error',
+      args: ['pull'],
+      result: {
+        code: 1,
+        stdout: '',
+        stderr: '\nfatal: not a git repository\nmore'
+      }
+    });
+    expect(message).toBe(
+      'Git: pull failed: fatal: not a git repository See the Git output log for details.'
+    );
+  });
+});
@@ -0,0 +1,312 @@
+import { runProcess, type ProcessResult } from './process';
+import { quoteForDialect, type ShellDialect } from './quoting';
+import { formatDate } from './template';
+
+export type GitResult = ProcessResult;
+
+export type GitExecutionMode = 'terminal' | 'background';
+
+export type GitOutcome = 'success' | 'nothing-to-commit' | 'conflict' | 'auth' | 'error';
+
+export type GitStepsResult = {
+  outcome: GitOutcome;
+  // The last step that ran; when the outcome is not a success this is the step that failed.
+  args: readonly string[];
+  result: GitResult;
+};
+
+export type GitChangeKind = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflict';
+
+export type GitChange = {
+  path: string;
+  // Set for renames and copies; the old path has to be staged too so the removal is committed.
+  originalPath?: string;
+  kind: GitChangeKind;
+};
+
+export const gitChangeKindLabels: Record<GitChangeKind, string> = {
+  modified: 'Modified',
+  added: 'Added',
+  deleted: 'Deleted',
+  renamed: 'Renamed',
+  untracked: 'New',
+  conflict: 'Conflict'
+};
+
+// Git must fail instead of waiting for credentials on a terminal that does not exist.
+export const runGit = (cwd: string, args: readonly string[]): Promise<GitResult> =>
+  runProcess('git', args, { cwd, env: { GIT_TERMINAL_PROMPT: '0' } });
+
+const toChangeKind = (status: string): GitChangeKind => {
+  if (status === '??') {
+    return 'untracked';
+  }
+  if (status.includes('U') || status === 'AA' || status === 'DD') {
+    return 'conflict';
+  }
+  if (status.includes('R') || status.includes('C')) {
+    return 'renamed';
+  }
+  if (status.includes('D')) {
+    return 'deleted';
+  }
+  if (status.includes('A')) {
+    return 'added';
+  }
+  return 'modified';
+};
+
+/** Parses the output of `git status --porcelain -z`. */
+export const parsePorcelainStatus = (output: string): GitChange[] => {
+  const entries = output.split('\0');
+  const changes: GitChange[] = [];
+  for (let index = 0; index < entries.length; index += 1) {
+    const entry = entries[index];
+    if (entry.length < 4) {
+      continue;
+    }
+    const status = entry.slice(0, 2);
+    const change: GitChange = { path: entry.slice(3), kind: toChangeKind(status) };
+    if (status.includes('R') || status.includes('C')) {
+      index += 1;
+      change.originalPath = entries[index];
+    }
+    changes.push(change);
+  }
+  return changes;
+};
+
+export const isGitRepository = async (cwd: string): Promise<boolean> => {
+  const result = await runGit(cwd, ['rev-parse', '--is-inside-work-tree']);
+  return result.code === 0;
+};
+
+export const readGitStatus = async (
+  cwd: string
+): Promise<{ changes: GitChange[] } | { error: string }> => {
+  const result = await runGit(cwd, ['status', '--porcelain', '-z']);
+  if (result.code !== 0) {
+    return { error: result.stderr.trim() || 'git status failed.' };
+  }
+  return { changes: parsePorcelainStatus(result.stdout) };
+};
+
+/** Counts the local commits that the upstream branch lacks; null when there is no upstream. */
+export const readAheadCount = async (cwd: string): Promise<number | null> => {
+  const result = await runGit(cwd, ['rev-list', '--count', '@{upstream}..HEAD']);
+  const count = Number.parseInt(result.stdout.trim(), 10);
+  return result.code === 0 && Number.isFinite(count) ? count : null;
+};
+
+const getNoteName = (path: string): string => {
+  const fileName = path.split('/').pop() ?? path;
+  return fileName.replace(/\.md$/i, '');
+};
+
+/**
+ * Fills a commit message template. Supports {{date}} and {{date:FORMAT}}, {{count}} for the
+ * number of changed files and {{files}} for the changed note names.
+ */
+export const formatCommitMessage = (
+  template: string,
+  changes: readonly GitChange[],
+  now = new Date()
+): string => {
+  const message = template.replace(
+    /\{\{\s*(date|count|files)(?::([^}]*))?\s*\}\}/g,
+    (_match, name: string, argument?: string) => {
+      if (name === 'count') {
+        return String(changes.length);
+      }
+      if (name === 'files') {
+        return changes.map((change) => getNoteName(change.path)).join(', ');
+      }
+      return formatDate(now, argument?.trim() || 'YYYY-MM-DD');
+    }
+  );
+  return message.replace(/[\r\n]+/g, ' ').trim() || 'update';
+};
+
+export const getChangePaths = (changes: readonly GitChange[]): string[] => {
+  const paths: string[] = [];
+  for (const change of changes) {
+    if (change.originalPath) {
+      paths.push(change.originalPath);
+    }
+    paths.push(change.path);
+  }
+  return paths;
+};
+
+/** Returns the git invocations that stage and commit the given paths, or everything, then push. */
+export const getGitCommitSteps = (
+  message: string,
+  paths?: readonly string[],
+  push = true
+): string[][] => {
+  const pushSteps = push ? [['push']] : [];
+  if (!paths) {
+    return [['add', '.'], ['commit', '-m', message], ...pushSteps];
+  }
+  // Porcelain paths are relative to the repository root, which may sit above the vault.
+  const pathspec = paths.map((path) => `:(top,literal)${path}`);
+  return [
+    ['add', '-A', '--', ...pathspec],
+    ['commit', '-m', message, '--', ...pathspec],
+    ...pushSteps
+  ];
+};
+
+export type GitBranch = {
+  name: string;
+  remote?: string;
+};
+
+/**
+ * Parses `git for-each-ref --format=%(refname)` output into local branches followed by remote
+ * branches that have no local branch of the same name yet.
+ */
+export const parseBranchRefs = (output: string): GitBranch[] => {
+  const local: GitBranch[] = [];
+  const remote: GitBranch[] = [];
+  for (const line of output.split('\n')) {
+    const ref = line.trim();
+    if (ref.startsWith('refs/heads/')) {
+      local.push({ name: ref.slice('refs/heads/'.length) });
+      continue;
+    }
+    const remoteMatch = /^refs\/remotes\/([^/]+)\/(.+)$/.exec(ref);
+    if (remoteMatch && remoteMatch[2] !== 'HEAD') {
+      remote.push({ name: remoteMatch[2], remote: remoteMatch[1] });
+    }
+  }
+  const localNames = new Set(local.map((branch) => branch.name));
+  return [...local, ...remote.filter((branch) => !localNames.has(branch.name))];
+};
+
+export const getBranchLabel = (branch: GitBranch): string =>
+  branch.remote ? `${branch.remote}/${branch.name}` : branch.name;
+
+export const readGitBranches = async (
+  cwd: string
+): Promise<{ branches: GitBranch[] } | { error: string }> => {
+  const result = await runGit(cwd, [
+    'for-each-ref',
+    '--format=%(refname)',
+    'refs/heads',
+    'refs/remotes'
+  ]);
+  if (result.code !== 0) {
+    return { error: result.stderr.trim() || 'git for-each-ref failed.' };
+  }
+  return { branches: parseBranchRefs(result.stdout) };
+};
+
+/**
+ * Returns the invocation that switches to a branch. Remote branches are checked out as a local
+ * branch of the same name that tracks them, which is what `git switch` does for an unambiguous name.
+ */
+export const getSwitchBranchSteps = (branch: GitBranch): string[][] =>
+  branch.remote
+    ? [['switch', '--track', '-c', branch.name, `${branch.remote}/${branch.name}`]]
+    : [['switch', branch.name]];
+
+export type SimpleGitAction = 'pull' | 'push' | 'fetch' | 'status' | 'log' | 'stash' | 'stash-pop';
+
+export const simpleGitActionSteps: Record<SimpleGitAction, string[][]> = {
+  pull: [['pull']],
+  push: [['push']],
+  fetch: [['fetch', '--all', '--prune']],
+  status: [['status']],
+  log: [['log', '--oneline', '--decorate', '-n', '50']],
+  stash: [['stash', 'push', '--include-untracked']],
+  'stash-pop': [['stash', 'pop']]
+};
+
+/** Shows staged and unstaged changes of one vault file against the last commit. */
+export const getDiffFileSteps = (vaultRelativePath: string): string[][] => [
+  ['diff', 'HEAD', '--', `:(literal)${vaultRelativePath}`]
+];
+
+/** Joins git invocations into one command line that stops at the first failing step. */
+export const formatGitCommandLine = (
+  steps: readonly (readonly string[])[],
+  dialect: ShellDialect
+): string =>
+  steps
+    .map((args) => ['git', ...args.map((arg) => quoteForDialect(arg, dialect))].join(' '))
+    .join(' && ');
+
+const CONFLICT_PATTERN =
+  /CONFLICT|Automatic merge failed|fix conflicts|unmerged files|you have unmerged/i;
+
+const AUTH_PATTERN =
+  /Authentication failed|could not read (Username|Password)|terminal prompts disabled|Permission denied \(publickey|Host key verification failed|returned error: 40[13]/i;
+
+const NOTHING_TO_COMMIT_PATTERN = /nothing to commit|no changes added to commit/i;
+
+export const classifyGitResult = (args: readonly string[], result: GitResult): GitOutcome => {
+  if (result.code === 0) {
+    return 'success';
+  }
+  const output = `${result.stdout}\n${result.stderr}`;
+  if (CONFLICT_PATTERN.test(output)) {
+    return 'conflict';
+  }
+  if (AUTH_PATTERN.test(output)) {
+    return 'auth';
+  }
+  if (args[0] === 'commit' && NOTHING_TO_COMMIT_PATTERN.test(output)) {
+    return 'nothing-to-commit';
+  }
+  return 'error';
+};
+
+/**
+ * Runs git invocations one after another in `cwd`, stopping at the first one that does not
+ * succeed. `onStep` sees every invocation and its output, for logging.
+ */
+export const runGitSteps = async (
+  cwd: string,
+  steps: readonly (readonly string[])[],
+  onStep?: (args: readonly string[], result: GitResult) => void
+): Promise<GitStepsResult> => {
+  let last: GitStepsResult = {
+    outcome: 'success',
+    args: [],
+    result: { code: 0, stdout: '', stderr: '' }
+  };
+  for (const args of steps) {
+    const result = await runGit(cwd, args);
+    onStep?.(args, result);
+    last = { outcome: classifyGitResult(args, result), args, result };
+    if (last.outcome !== 'success') {
+      break;
+    }
+  }
+  return last;
+};
+
+const getFirstLine = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.length > 0) ?? '';
+
+/** Builds the notice text for a background git run. */
+export const describeGitOutcome = (label: string, { outcome, result }: GitStepsResult): string => {
+  switch (outcome) {
+    case 'success':
+      return `${label} succeeded.`;
+    case 'nothing-to-commit':
+      return 'Nothing to commit.';
+    case 'conflict':
+      return `${label} stopped on merge conflicts. Resolve them, then commit.`;
+    case 'auth':
+      return `${label} could not authenticate with the remote. Background Git cannot ask for credentials, so set up a credential helper or SSH key.`;
+    case 'error': {
+      const detail = getFirstLine(result.stderr) || getFirstLine(result.stdout);
+      return `${label} failed${detail ? `: ${detail}` : '.'} See the Git output log for details.`;
+    }
+  }
+};
@@ -0,0 +1,32 @@
+import { App, FuzzySuggestModal, type FuzzyMatch } from 'obsidian';
+
+import { formatLaunchDetails, formatLaunchRecord, type LaunchRecord } from './history';
+
+export class LaunchHistoryModal extends FuzzySuggestModal<LaunchRecord> {
+  constructor(
+    app: App,
+    private readonly records: readonly LaunchRecord[],
+    placeholder: string,
+    private readonly onChoose: (record: LaunchRecord) => void
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): LaunchRecord[] {
+    return [...this.records];
+  }
+
+  getItemText(record: LaunchRecord): string {
+    return formatLaunchRecord(record);
+  }
+
+  renderSuggestion(match: FuzzyMatch<LaunchRecord>, el: HTMLElement) {
+    super.renderSuggestion(match, el);
+    el.createDiv({ cls: 'u-muted', text: formatLaunchDetails(match.item) });
+  }
+
+  onChooseItem(record: LaunchRecord) {
+    this.onChoose(record);
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatLaunchDetails,
+  formatLaunchRecord,
+  LaunchHistory,
+  normalizeLaunchHistory,
+  type LaunchRecord
+} from './history';
+
+const launch = (label: string, timestamp: number): Omit<LaunchRecord, 'id' | 'pinned'> => ({
+  targetId: 'open-claude',
+  toolCommand: `${label} --continue`,
+  label,
+  cwd: '/vault',
+  command: `open -a Terminal /tmp/${label}.command`,
+  timestamp,
+  outcome: 'started'
+});
+
+describe('LaunchHistory', () => {
+  it('keeps launches newest first and persists every change', () => {
+    const saved: (readonly LaunchRecord[])[] = [];
+    const history = new LaunchHistory([], (records) => saved.push([...records]));
+    history.add(launch('first', 1));
+    const second = history.add(launch('second', 2));
+    history.setOutcome(second.id, 'failed', 'exit code 1');
+
+    expect(history.getLast()).toMatchObject({
+      label: 'second',
+      outcome: 'failed',
+      error: 'exit code 1'
+    });
+    expect(history.getRecords().map((record) => record.label)).toEqual(['second', 'first']);
+    expect(saved).toHaveLength(3);
+    expect(saved[2]).toEqual(history.getRecords());
+  });
+
+  it('drops the oldest unpinned launches once full and keeps pinned ones', () => {
+    const history = new LaunchHistory([], () => {}, 3);
+    const pinned = history.add(launch('a', 1));
+    history.togglePin(pinned.id);
+    history.add(launch('b', 2));
+    history.add(launch('c', 3));
+    history.add(launch('d', 4));
+
+    expect(history.getRecords().map((record) => record.label)).toEqual(['a', 'd', 'c']);
+    history.togglePin(pinned.id);
+    expect(history.getRecords().map((record) => record.label)).toEqual(['d', 'c', 'a']);
+  });
+
+  it('restores stored launches and skips invalid entries', () => {
+    const stored = [
+      { ...launch('kept', 5), id: 'x', pinned: true, extra: 1 },
+      { ...launch('bad outcome', 6), id: 'y', outcome: 'exploded' },
+      'not a launch',
+      null
+    ];
+    expect(normalizeLaunchHistory(stored)).toEqual([
+      {
+        id: 'x',
+        targetId: 'open-claude',
+        toolCommand: 'kept --continue',
+        label: 'kept',
+        cwd: '/vault',
+        command: 'open -a Terminal /tmp/kept.command',
+        timestamp: 5,
+        outcome: 'started',
+        error: undefined,
+        pinned: true
+      }
+    ]);
+    expect(normalizeLaunchHistory({ records: [] })).toEqual([]);
+    expect(new LaunchHistory(stored, () => {}).getLast()?.label).toBe('kept');
+  });
+});
+
+describe('formatLaunchRecord', () => {
+  it('shows the target, command and directory, with pinned launches starred', () => {
+    const record: LaunchRecord = { ...launch('Open in Claude Code', 0), id: 'a', pinned: true };
+    expect(formatLaunchRecord(record)).toBe(
+      '★ Open in Claude Code: Open in Claude Code --continue (/vault)'
+    );
+    expect(formatLaunchRecord({ ...record, toolCommand: undefined, pinned: false })).toBe(
+      'Open in Claude Code (/vault)'
+    );
+  });
+
+  it('describes when the launch ran and how it went', () => {
+    const timestamp = new Date(2024, 4, 6, 7, 8).getTime();
+    const record: LaunchRecord = { ...launch('x', timestamp), id: 'a', pinned: false };
+    expect(formatLaunchDetails(record)).toBe('2024-05-06 07:08 · Started');
+    expect(formatLaunchDetails({ ...record, outcome: 'failed', error: 'spawn ENOENT' })).toBe(
+      '2024-05-06 07:08 · Failed: spawn ENOENT'
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { formatDate } from './template';
+
+export const MAX_LAUNCH_HISTORY = 50;
+
+export type LaunchOutcome = 'started' | 'failed' | 'dry-run';
+
+export const launchOutcomeLabels: Record<LaunchOutcome, string> = {
+  started: 'Started',
+  failed: 'Failed',
+  'dry-run': 'Dry run'
+};
+
+export const isLaunchOutcome = (value: unknown): value is LaunchOutcome =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(launchOutcomeLabels, value);
+
+/** What a launch ran, so that it can run again. */
+export type LaunchOrigin = {
+  // Launch target id; Git commands have none.
+  targetId?: string;
+  // The command after template expansion, which a re-run reuses as is.
+  toolCommand?: string;
+};
+
+export type LaunchRecord = LaunchOrigin & {
+  id: string;
+  label: string;
+  cwd: string;
+  // The shell command that was spawned to open the terminal.
+  command: string;
+  timestamp: number;
+  outcome: LaunchOutcome;
+  error?: string;
+  pinned: boolean;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const readLaunchRecord = (value: unknown): LaunchRecord | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.label !== 'string' ||
+    typeof value.cwd !== 'string' ||
+    typeof value.command !== 'string' ||
+    typeof value.timestamp !== 'number' ||
+    !isLaunchOutcome(value.outcome)
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    targetId: typeof value.targetId === 'string' ? value.targetId : undefined,
+    toolCommand: typeof value.toolCommand === 'string' ? value.toolCommand : undefined,
+    label: value.label,
+    cwd: value.cwd,
+    command: value.command,
+    timestamp: value.timestamp,
+    outcome: value.outcome,
+    error: typeof value.error === 'string' ? value.error : undefined,
+    pinned: value.pinned === true
+  };
+};
+
+export const normalizeLaunchHistory = (value: unknown): LaunchRecord[] =>
+  Array.isArray(value)
+    ? value.map(readLaunchRecord).filter((record): record is LaunchRecord => record !== null)
+    : [];
+
+/**
+ * Recent launches, newest first. Pinned launches are kept; the others are dropped once the
+ * history is full. Every change is handed to `persist`.
+ */
+export class LaunchHistory {
+  private records: LaunchRecord[];
+
+  constructor(
+    stored: unknown,
+    private readonly persist: (records: readonly LaunchRecord[]) => void,
+    private readonly maxRecords = MAX_LAUNCH_HISTORY
+  ) {
+    this.records = normalizeLaunchHistory(stored);
+  }
+
+  add(record: Omit<LaunchRecord, 'id' | 'pinned'>): LaunchRecord {
+    const added: LaunchRecord = {
+      ...record,
+      id: `${record.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      pinned: false
+    };
+    this.records.unshift(added);
+    let unpinned = this.maxRecords - this.records.filter((item) => item.pinned).length;
+    this.records = this.records.filter((item) => item.pinned || unpinned-- > 0);
+    this.save();
+    return added;
+  }
+
+  setOutcome(id: string, outcome: LaunchOutcome, error?: string) {
+    this.update(id, (record) => ({ ...record, outcome, error }));
+  }
+
+  togglePin(id: string) {
+    this.update(id, (record) => ({ ...record, pinned: !record.pinned }));
+  }
+
+  getLast(): LaunchRecord | undefined {
+    return this.records[0];
+  }
+
+  /** Pinned launches first, then the others; both newest first. */
+  getRecords(): LaunchRecord[] {
+    return [
+      ...this.records.filter((record) => record.pinned),
+      ...this.records.filter((record) => !record.pinned)
+    ];
+  }
+
+  private update(id: string, change: (record: LaunchRecord) => LaunchRecord) {
+    const index = this.records.findIndex((record) => record.id === id);
+    if (index < 0) {
+      return;
+    }
+    this.records[index] = change(this.records[index]);
+    this.save();
+  }
+
+  private save() {
+    this.persist(this.records);
+  }
+}
+
+export const formatLaunchRecord = (record: LaunchRecord): string => {
+  const command = record.toolCommand ? `: ${record.toolCommand}` : '';
+  return `${record.pinned ? '★ ' : ''}${record.label}${command} (${record.cwd})`;
+};
+
+export const formatLaunchDetails = (record: LaunchRecord): string => {
+  const outcome = record.error
+    ? `${launchOutcomeLabels[record.outcome]}: ${record.error}`
+    : launchOutcomeLabels[record.outcome];
+  return `${formatDate(new Date(record.timestamp), 'YYYY-MM-DD HH:mm')} · ${outcome}`;
+};
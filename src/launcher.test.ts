@@ -0,0 +1,294 @@
+import { execFileSync } from 'child_process';
+import { writeFileSync } from 'fs';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { setDesktopPlatform } from './__mocks__/obsidian';
+import { buildLaunchCommand, toWslPath, type LaunchCommand } from './launcher';
+
+vi.mock('fs', () => ({
+  mkdtempSync: vi.fn((prefix: string) => `${prefix}test`),
+  writeFileSync: vi.fn(),
+  rmSync: vi.fn()
+}));
+
+vi.mock('os', () => ({
+  tmpdir: () => '/tmp'
+}));
+
+const unixPaths = {
+  plain: '/home/user/vault',
+  spaces: '/home/user/My Vault',
+  quotes: `/home/user/it's a "vault"`,
+  specials: '/home/user/100% done! $HOME `whoami`',
+  unicode: '/home/user/笔记 – café'
+};
+
+const windowsPaths = {
+  plain: 'C:\\Users\\user\\vault',
+  spaces: 'C:\\Users\\user\\My Vault',
+  quotes: `C:\\Users\\user\\it's a vault`,
+  specials: 'D:\\notes\\100% done! $HOME `whoami`',
+  unicode: 'C:\\Users\\user\\笔记 – café'
+};
+
+const toolCommands = [undefined, 'claude'] as const;
+
+const expectCommand = (launchCommand: LaunchCommand | null): string => {
+  expect(launchCommand).not.toBeNull();
+  return launchCommand?.command ?? '';
+};
+
+const lastScript = (): string => {
+  const calls = vi.mocked(writeFileSync).mock.calls;
+  expect(calls.length).toBeGreaterThan(0);
+  const content = calls[calls.length - 1][1];
+  expect(content).toBeTypeOf('string');
+  return content as string;
+};
+
+// Replaces the terminal executable with printf so the shell prints each argument it would pass.
+const parseUnixArguments = (command: string, app: string): string[] => {
+  const output = execFileSync('/bin/sh', ['-c', `printf '%s\\0' ${command.slice(app.length)}`]);
+  return output.toString().split('\0').slice(0, -1);
+};
+
+// Runs a generated shell script with `cd` stubbed out to report the directory it was given.
+const readScriptDirectory = (script: string): string =>
+  execFileSync('/bin/sh', ['-c', `cd() { printf '%s' "$1"; exit 0; }; ${script}`]).toString();
+
+beforeEach(() => {
+  vi.mocked(writeFileSync).mockClear();
+});
+
+describe('buildLaunchCommand on macOS', () => {
+  beforeEach(() => {
+    setDesktopPlatform('macos');
+  });
+
+  it('returns null when the terminal app is empty', () => {
+    expect(buildLaunchCommand('  ', unixPaths.plain)).toBeNull();
+  });
+
+  describe.each(Object.entries(unixPaths))('with %s vault path', (_name, vaultPath) => {
+    it('opens the app at the vault for simple launches', () => {
+      expect(expectCommand(buildLaunchCommand('Terminal', vaultPath))).toMatchSnapshot();
+    });
+
+    it('runs tools through a temporary .command script', () => {
+      const launchCommand = buildLaunchCommand('Terminal', vaultPath, 'claude');
+      expect(launchCommand?.cleanup).toBeTypeOf('function');
+      expect(expectCommand(launchCommand)).toBe(
+        'open -a Terminal /tmp/open-in-terminal-test/launch.command'
+      );
+      expect(lastScript()).toMatchSnapshot();
+    });
+
+    it.each(['Ghostty', 'kitty', 'WezTerm', 'Warp'])('builds the %s launch', (app) => {
+      for (const toolCommand of toolCommands) {
+        const command = expectCommand(buildLaunchCommand(app, vaultPath, toolCommand));
+        expect(command).toMatchSnapshot(toolCommand ?? 'simple');
+      }
+    });
+
+    it.each(['iTerm', 'Terminal', 'Warp'])('opens a new %s tab when requested', (app) => {
+      const command = expectCommand(
+        buildLaunchCommand(app, vaultPath, undefined, { macOpenMode: 'tab' })
+      );
+      expect(command).toMatchSnapshot();
+    });
+  });
+
+  it('exports environment variables in the launch script', () => {
+    buildLaunchCommand('Terminal', unixPaths.plain, 'claude', {
+      env: { OBSIDIAN_FILE: `/home/user/it's.md` }
+    });
+    expect(lastScript()).toContain(`export OBSIDIAN_FILE='/home/user/it'\\''s.md'`);
+  });
+
+  it('keeps environment variables out of the command line of direct launches', () => {
+    const launchCommand = buildLaunchCommand('kitty', unixPaths.plain, 'claude', {
+      env: { API_TOKEN: 'secret' }
+    });
+    expect(launchCommand?.cleanup).toBeTypeOf('function');
+    expect(expectCommand(launchCommand)).toBe(
+      `open -na kitty --args --directory /home/user/vault bash -lc '. /tmp/open-in-terminal-test/env.sh; cd /home/user/vault; claude; exec "$SHELL"'`
+    );
+    expect(writeFileSync).toHaveBeenLastCalledWith(
+      '/tmp/open-in-terminal-test/env.sh',
+      'export API_TOKEN=secret',
+      { mode: 0o600 }
+    );
+  });
+
+  it('runs tools with the configured shell', () => {
+    buildLaunchCommand('Terminal', unixPaths.plain, 'claude', { shell: 'zsh' });
+    expect(lastScript().split('\n')[0]).toBe('#!/usr/bin/env zsh');
+    buildLaunchCommand('Terminal', unixPaths.plain, 'claude', { shell: '/opt/homebrew/bin/fish' });
+    expect(lastScript().split('\n')[0]).toBe('#!/opt/homebrew/bin/fish');
+    expect(
+      expectCommand(buildLaunchCommand('kitty', unixPaths.plain, 'claude', { shell: 'zsh' }))
+    ).toBe(
+      `open -na kitty --args --directory /home/user/vault zsh -lc 'cd /home/user/vault; claude; exec "$SHELL"'`
+    );
+  });
+
+  it('falls back to a new window for apps without tab support', () => {
+    const windowCommand = buildLaunchCommand('Ghostty', unixPaths.plain, 'claude');
+    const tabCommand = buildLaunchCommand('Ghostty', unixPaths.plain, 'claude', {
+      macOpenMode: 'tab'
+    });
+    expect(tabCommand).toEqual(windowCommand);
+  });
+});
+
+describe('buildLaunchCommand on Windows', () => {
+  beforeEach(() => {
+    setDesktopPlatform('win');
+  });
+
+  it('returns null when the terminal app is empty', () => {
+    expect(buildLaunchCommand('', windowsPaths.plain)).toBeNull();
+  });
+
+  describe.each(Object.entries(windowsPaths))('with %s vault path', (_name, vaultPath) => {
+    it.each(['cmd.exe', 'powershell', 'wt.exe', 'alacritty.exe'])('builds the %s launch', (app) => {
+      for (const toolCommand of toolCommands) {
+        const command = expectCommand(buildLaunchCommand(app, vaultPath, toolCommand));
+        expect(command.startsWith('start "" ')).toBe(true);
+        expect(command).toMatchSnapshot(toolCommand ?? 'simple');
+      }
+    });
+
+    it.each(['cmd.exe', 'powershell', 'wt.exe', 'alacritty.exe'])(
+      'builds the %s launch through WSL',
+      (app) => {
+        for (const toolCommand of toolCommands) {
+          const command = expectCommand(
+            buildLaunchCommand(app, vaultPath, toolCommand, { useWslOnWindows: true })
+          );
+          expect(command).toContain('wsl.exe --cd');
+          expect(command).toMatchSnapshot(toolCommand ?? 'simple');
+        }
+      }
+    );
+  });
+
+  it('runs sessions only through WSL', () => {
+    const session = { multiplexer: 'tmux', name: 'vault-claude' } as const;
+    expect(buildLaunchCommand('cmd.exe', windowsPaths.plain, 'claude', { session })).toEqual(
+      buildLaunchCommand('cmd.exe', windowsPaths.plain, 'claude')
+    );
+    const command = expectCommand(
+      buildLaunchCommand('cmd.exe', windowsPaths.plain, 'claude', {
+        useWslOnWindows: true,
+        session
+      })
+    );
+    expect(command).toContain(`tmux new-session -A -s vault-claude claude`);
+  });
+
+  it('skips WSL launches for paths without a drive letter', () => {
+    expect(
+      buildLaunchCommand('cmd.exe', '\\\\server\\share\\vault', 'claude', { useWslOnWindows: true })
+    ).toBeNull();
+  });
+});
+
+describe('buildLaunchCommand on Linux', () => {
+  beforeEach(() => {
+    setDesktopPlatform('linux');
+  });
+
+  it('returns null when the terminal app is empty', () => {
+    expect(buildLaunchCommand('', unixPaths.plain)).toBeNull();
+  });
+
+  const emulators = [
+    'x-terminal-emulator',
+    'gnome-terminal',
+    'konsole',
+    'kitty',
+    'alacritty',
+    'wezterm',
+    'foot',
+    'xfce4-terminal',
+    'tilix',
+    'terminator',
+    'urxvt',
+    'xterm'
+  ];
+
+  describe.each(Object.entries(unixPaths))('with %s vault path', (_name, vaultPath) => {
+    it.each(emulators)('builds the %s launch', (app) => {
+      for (const toolCommand of toolCommands) {
+        const command = expectCommand(buildLaunchCommand(app, vaultPath, toolCommand));
+        expect(command).toMatchSnapshot(toolCommand ?? 'simple');
+      }
+    });
+
+    it('passes the vault path through the shell unchanged', () => {
+      const command = expectCommand(buildLaunchCommand('alacritty', vaultPath, 'claude'));
+      const args = parseUnixArguments(command, 'alacritty');
+      expect(args.slice(0, 2)).toEqual(['--working-directory', vaultPath]);
+      expect(args.slice(2, 5)).toEqual(['-e', 'bash', '-lc']);
+      expect(readScriptDirectory(args[5])).toBe(vaultPath);
+    });
+  });
+
+  it('expands the custom argument template', () => {
+    const command = expectCommand(
+      buildLaunchCommand('my-term', unixPaths.spaces, 'claude', {
+        unixArgumentTemplate: '--cwd {cwd} --run sh -c {command}'
+      })
+    );
+    expect(parseUnixArguments(command, 'my-term')).toEqual([
+      '--cwd',
+      unixPaths.spaces,
+      '--run',
+      'sh',
+      '-c',
+      `cd '${unixPaths.spaces}'; claude; exec "$SHELL"`
+    ]);
+  });
+
+  it('reattaches to the target session on later launches', () => {
+    const session = { multiplexer: 'tmux', name: 'vault-claude' } as const;
+    for (const toolCommand of toolCommands) {
+      const command = expectCommand(
+        buildLaunchCommand('alacritty', unixPaths.plain, toolCommand, { session })
+      );
+      const args = parseUnixArguments(command, 'alacritty');
+      expect(args.slice(2, 5)).toEqual(['-e', 'bash', '-lc']);
+      expect(args[5]).toBe(
+        toolCommand
+          ? `cd /home/user/vault; tmux new-session -A -s vault-claude claude; exec "$SHELL"`
+          : `cd /home/user/vault; tmux new-session -A -s vault-claude; exec "$SHELL"`
+      );
+    }
+  });
+
+  it('runs tools with the configured shell', () => {
+    const command = expectCommand(
+      buildLaunchCommand('alacritty', unixPaths.plain, 'claude', { shell: 'zsh' })
+    );
+    expect(parseUnixArguments(command, 'alacritty').slice(2, 5)).toEqual(['-e', 'zsh', '-lc']);
+  });
+
+  it('matches emulators given as absolute paths', () => {
+    const command = expectCommand(buildLaunchCommand('/usr/bin/kitty', unixPaths.plain, 'claude'));
+    expect(command).toBe(
+      `/usr/bin/kitty --directory /home/user/vault bash -lc 'cd /home/user/vault; claude; exec "$SHELL"'`
+    );
+  });
+});
+
+describe('toWslPath', () => {
+  it('maps drive letters to /mnt', () => {
+    expect(toWslPath('C:\\Users\\user\\My Vault')).toBe('/mnt/c/Users/user/My Vault');
+  });
+
+  it('rejects paths without a drive letter', () => {
+    expect(toWslPath('\\\\server\\share')).toBeNull();
+  });
+});
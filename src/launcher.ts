@@ -5,23 +5,40 @@ import { join } from 'path';
 import { Platform } from 'obsidian';
 
 import { logger } from './logger';
+import { buildMultiplexerCommand, type MultiplexerSession } from './multiplexer';
+import {
+  quoteCmd,
+  quotePosix,
+  quotePowershell,
+  wrapCmdCommandLine,
+  type ShellDialect
+} from './quoting';
 
 export type LaunchCommand = {
   command: string;
   cleanup?: () => void;
+  // Content of the temporary script that the command opens, when there is one.
+  script?: string;
 };
 
+export type MacOpenMode = 'window' | 'tab';
+
 export type LaunchOptions = {
   useWslOnWindows?: boolean;
+  env?: Record<string, string>;
+  unixArgumentTemplate?: string;
+  macOpenMode?: MacOpenMode;
+  // Runs the tool command inside a tmux or zellij session that later launches reattach to.
+  session?: MultiplexerSession;
+  // Shell that runs tool commands on macOS and Linux, with `-lc`.
+  shell?: string;
 };
 
-const sanitizeTerminalApp = (value: string): string => value.trim();
-
-const escapeDoubleQuotes = (value: string): string => value.replace(/"/g, '\\"');
+const DEFAULT_SHELL = 'bash';
 
-const escapeForCmdQuotedString = (value: string): string => value.replace(/"/g, '""');
+const sanitizeTerminalApp = (value: string): string => value.trim();
 
-const toWslPath = (windowsPath: string): string | null => {
+export const toWslPath = (windowsPath: string): string | null => {
   const normalized = windowsPath.replace(/\\/g, '/');
   const match = normalized.match(/^([A-Za-z]):\/(.*)$/);
   if (!match) {
@@ -57,11 +74,15 @@ export const getPlatformSummary = (): string => {
   return 'unknown';
 };
 
-const ensureTempScript = (content: string): { path: string; cleanup: () => void } => {
+const ensureTempScript = (
+  content: string,
+  fileName = 'launch.command',
+  mode = 0o755
+): { path: string; cleanup: () => void } => {
   const dir = mkdtempSync(join(tmpdir(), 'open-in-terminal-'));
-  const filePath = join(dir, 'launch.command');
+  const filePath = join(dir, fileName);
   logger.log('Creating temp script', { dir, filePath });
-  writeFileSync(filePath, content, { mode: 0o755 });
+  writeFileSync(filePath, content, { mode });
   const cleanup = () => {
     try {
       rmSync(dir, { recursive: true, force: true });
@@ -73,34 +94,235 @@ const ensureTempScript = (content: string): { path: string; cleanup: () => void
   return { path: filePath, cleanup };
 };
 
-const buildMacLaunch = (
-  terminalApp: string,
-  vaultPath: string,
-  toolCommand?: string
-): LaunchCommand | null => {
-  const app = sanitizeTerminalApp(terminalApp);
-  if (!app) {
-    return null;
-  }
+const buildExportLines = (env?: Record<string, string>): string[] =>
+  Object.entries(env ?? {}).map(([key, value]) => `export ${key}=${quotePosix(value)}`);
 
+const quoteArgs = (args: string[]): string => args.map(quotePosix).join(' ');
+
+const buildShebang = (shell: string): string =>
+  shell.startsWith('/') ? `#!${shell}` : `#!/usr/bin/env ${shell}`;
+
+const buildMacScriptLaunch = (
+  app: string,
+  vaultPath: string,
+  toolCommand?: string,
+  env?: Record<string, string>,
+  shell = DEFAULT_SHELL
+): LaunchCommand => {
   if (!toolCommand) {
-    const escapedApp = escapeDoubleQuotes(app);
-    const escapedPath = escapeDoubleQuotes(vaultPath);
-    const command = `open -a "${escapedApp}" "${escapedPath}"`;
+    const command = `open -a ${quotePosix(app)} ${quotePosix(vaultPath)}`;
     logger.log('macOS simple launch', { app, command, vaultPath });
     return { command };
   }
 
-  const escapedVaultPath = escapeDoubleQuotes(vaultPath);
-  const scriptLines = ['#!/bin/bash', `cd "${escapedVaultPath}"`];
+  const shebang = shell === DEFAULT_SHELL ? '#!/bin/bash' : buildShebang(shell);
+  const scriptLines = [shebang, `cd ${quotePosix(vaultPath)}`];
+  // `open -a` does not forward our environment to the terminal app, so export it in the script.
+  scriptLines.push(...buildExportLines(env));
   if (toolCommand) {
     scriptLines.push(toolCommand);
   }
   scriptLines.push('exec "$SHELL"');
-  const { path, cleanup } = ensureTempScript(scriptLines.join('\n'));
-  const command = `open -a "${escapeDoubleQuotes(app)}" "${path}"`;
+  const script = scriptLines.join('\n');
+  const { path, cleanup } = ensureTempScript(script);
+  const command = `open -a ${quotePosix(app)} ${quotePosix(path)}`;
   logger.log('macOS script launch', { app, command, script: path, toolCommand });
-  return { command, cleanup };
+  return { command, cleanup, script };
+};
+
+/**
+ * Shell line for terminals that start a command directly instead of reading a `.command` file.
+ * The variables may hold secrets and the line is logged, so they go in a file only the user can
+ * read, which the line sources.
+ */
+const buildMacShellScript = (
+  cwd: string,
+  toolCommand: string | undefined,
+  env: Record<string, string> | undefined,
+  keepShell: boolean
+): { line: string; cleanup?: () => void } => {
+  const parts = [`cd ${quotePosix(cwd)}`];
+  let cleanup: (() => void) | undefined;
+  const exportLines = buildExportLines(env);
+  if (exportLines.length > 0) {
+    const envScript = ensureTempScript(exportLines.join('\n'), 'env.sh', 0o600);
+    parts.unshift(`. ${quotePosix(envScript.path)}`);
+    cleanup = envScript.cleanup;
+  }
+  if (toolCommand) {
+    parts.push(toolCommand);
+  }
+  if (keepShell) {
+    parts.push('exec "$SHELL"');
+  }
+  return { line: parts.join('; '), cleanup };
+};
+
+const escapeAppleScriptString = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+const buildOsascriptCommand = (lines: string[]): string =>
+  `osascript ${lines.map((line) => `-e ${quotePosix(line)}`).join(' ')}`;
+
+type MacTerminalProfile = {
+  label: string;
+  apps: readonly string[];
+  supportsTabs: boolean;
+  launch: (
+    app: string,
+    cwd: string,
+    toolCommand: string | undefined,
+    env: Record<string, string> | undefined,
+    openMode: MacOpenMode,
+    shell: string
+  ) => LaunchCommand;
+};
+
+const macTerminalProfiles: readonly MacTerminalProfile[] = [
+  {
+    label: 'Terminal',
+    apps: ['terminal', 'terminal.app'],
+    supportsTabs: true,
+    launch: (app, cwd, toolCommand, env, openMode, shell) => {
+      if (openMode === 'window') {
+        return buildMacScriptLaunch(app, cwd, toolCommand, env, shell);
+      }
+      const shellScript = buildMacShellScript(cwd, toolCommand, env, false);
+      const script = escapeAppleScriptString(shellScript.line);
+      // Terminal has no scripting command for tabs, so the tab is opened with its shortcut.
+      return {
+        command: buildOsascriptCommand([
+          'tell application "Terminal"',
+          'activate',
+          'if (count of windows) is 0 then',
+          `do script "${script}"`,
+          'else',
+          'tell application "System Events" to keystroke "t" using command down',
+          'delay 0.2',
+          `do script "${script}" in front window`,
+          'end if',
+          'end tell'
+        ]),
+        cleanup: shellScript.cleanup
+      };
+    }
+  },
+  {
+    label: 'iTerm2',
+    apps: ['iterm', 'iterm2', 'iterm.app', 'iterm2.app'],
+    supportsTabs: true,
+    launch: (app, cwd, toolCommand, env, openMode, shell) => {
+      if (openMode === 'window') {
+        return buildMacScriptLaunch(app, cwd, toolCommand, env, shell);
+      }
+      const shellScript = buildMacShellScript(cwd, toolCommand, env, false);
+      const script = escapeAppleScriptString(shellScript.line);
+      return {
+        command: buildOsascriptCommand([
+          'tell application "iTerm"',
+          'activate',
+          'if (count of windows) is 0 then',
+          'create window with default profile',
+          'else',
+          'tell current window to create tab with default profile',
+          'end if',
+          `tell current session of current window to write text "${script}"`,
+          'end tell'
+        ]),
+        cleanup: shellScript.cleanup
+      };
+    }
+  },
+  {
+    label: 'Ghostty',
+    apps: ['ghostty', 'ghostty.app'],
+    supportsTabs: false,
+    launch: (app, cwd, toolCommand, env, _openMode, shell) => {
+      const args = [`--working-directory=${cwd}`];
+      if (!toolCommand) {
+        return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}` };
+      }
+      const { line, cleanup } = buildMacShellScript(cwd, toolCommand, env, true);
+      args.push('-e', shell, '-lc', line);
+      return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}`, cleanup };
+    }
+  },
+  {
+    label: 'kitty',
+    apps: ['kitty', 'kitty.app'],
+    supportsTabs: false,
+    launch: (app, cwd, toolCommand, env, _openMode, shell) => {
+      const args = ['--directory', cwd];
+      if (!toolCommand) {
+        return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}` };
+      }
+      const { line, cleanup } = buildMacShellScript(cwd, toolCommand, env, true);
+      args.push(shell, '-lc', line);
+      return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}`, cleanup };
+    }
+  },
+  {
+    label: 'WezTerm',
+    apps: ['wezterm', 'wezterm.app'],
+    supportsTabs: false,
+    launch: (app, cwd, toolCommand, env, _openMode, shell) => {
+      const args = ['start', '--cwd', cwd];
+      if (!toolCommand) {
+        return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}` };
+      }
+      const { line, cleanup } = buildMacShellScript(cwd, toolCommand, env, true);
+      args.push('--', shell, '-lc', line);
+      return { command: `open -na ${quotePosix(app)} --args ${quoteArgs(args)}`, cleanup };
+    }
+  },
+  {
+    label: 'Warp',
+    apps: ['warp', 'warp.app'],
+    supportsTabs: true,
+    launch: (app, cwd, toolCommand, env, openMode, shell) => {
+      // Warp's URL scheme opens a path but cannot run a command, so tools go through a script.
+      if (toolCommand) {
+        return buildMacScriptLaunch(app, cwd, toolCommand, env, shell);
+      }
+      const action = openMode === 'tab' ? 'new_tab' : 'new_window';
+      const url = `warp://action/${action}?path=${encodeURIComponent(cwd)}`;
+      return { command: `open ${quotePosix(url)}` };
+    }
+  }
+];
+
+export const resolveMacTerminalProfile = (terminalApp: string): MacTerminalProfile | null => {
+  const app = sanitizeTerminalApp(terminalApp).toLowerCase();
+  const name = app.split('/').pop() ?? app;
+  return macTerminalProfiles.find((profile) => profile.apps.includes(name)) ?? null;
+};
+
+const buildMacLaunch = (
+  terminalApp: string,
+  vaultPath: string,
+  toolCommand?: string,
+  env?: Record<string, string>,
+  openMode: MacOpenMode = 'window',
+  shell = DEFAULT_SHELL
+): LaunchCommand | null => {
+  const app = sanitizeTerminalApp(terminalApp);
+  if (!app) {
+    return null;
+  }
+
+  const profile = resolveMacTerminalProfile(app);
+  if (!profile) {
+    return buildMacScriptLaunch(app, vaultPath, toolCommand, env, shell);
+  }
+
+  const mode = profile.supportsTabs ? openMode : 'window';
+  const launchCommand = profile.launch(app, vaultPath, toolCommand, env, mode, shell);
+  logger.log(`macOS launch (${profile.label}, ${mode})`, {
+    command: launchCommand.command,
+    toolCommand,
+    vaultPath
+  });
+  return launchCommand;
 };
 
 const buildWindowsLaunch = (
@@ -114,8 +336,7 @@ const buildWindowsLaunch = (
     return null;
   }
 
-  const escapedVault = vaultPath.replace(/"/g, '"');
-  const cdCommand = `cd /d "${escapedVault}"`;
+  const cdCommand = `cd /d ${quoteCmd(vaultPath)}`;
   const tool = toolCommand ? ` && ${toolCommand}` : '';
 
   const lowerApp = app.toLowerCase();
@@ -127,20 +348,19 @@ const buildWindowsLaunch = (
       return null;
     }
 
-    const wslPrefix = `wsl.exe --cd "${escapeForCmdQuotedString(wslVaultPath)}"`;
+    const wslPrefix = `wsl.exe --cd ${quoteCmd(wslVaultPath)}`;
     const wslCommand = toolCommand ? `${wslPrefix} ${toolCommand}` : wslPrefix;
 
     if (lowerApp === 'cmd.exe' || lowerApp === 'cmd') {
-      const command = `start "" cmd.exe /K "${wslCommand}"`;
+      const command = `start "" cmd.exe /K ${wrapCmdCommandLine(wslCommand)}`;
       logger.log('Windows launch (cmd.exe + WSL)', { command, toolCommand, vaultPath, wslVaultPath });
       return { command };
     }
 
-    if (lowerApp === 'powershell' || lowerApp === 'powershell.exe') {
-      const psWslPath = wslVaultPath.replace(/'/g, "''");
-      const psCommand = toolCommand
-        ? `start "" powershell -NoExit -Command "wsl.exe --cd '${psWslPath}' ${toolCommand}"`
-        : `start "" powershell -NoExit -Command "wsl.exe --cd '${psWslPath}'"`;
+    if (isPowershellApp(lowerApp)) {
+      const psWslPrefix = `wsl.exe --cd ${quotePowershell(wslVaultPath)}`;
+      const psScript = toolCommand ? `${psWslPrefix} ${toolCommand}` : psWslPrefix;
+      const psCommand = `start "" powershell -NoExit -Command ${quoteCmd(psScript)}`;
       logger.log('Windows launch (powershell + WSL)', {
         command: psCommand,
         toolCommand,
@@ -151,14 +371,12 @@ const buildWindowsLaunch = (
     }
 
     if (lowerApp === 'wt.exe' || lowerApp === 'wt') {
-      const command = toolCommand
-        ? `start "" wt.exe new-tab wsl.exe --cd "${escapeForCmdQuotedString(wslVaultPath)}" ${toolCommand}`
-        : `start "" wt.exe new-tab wsl.exe --cd "${escapeForCmdQuotedString(wslVaultPath)}"`;
+      const command = `start "" wt.exe new-tab ${wslCommand}`;
       logger.log('Windows launch (wt + WSL)', { command, toolCommand, vaultPath, wslVaultPath });
       return { command };
     }
 
-    const command = `start "" cmd.exe /K "${wslCommand}"`;
+    const command = `start "" cmd.exe /K ${wrapCmdCommandLine(wslCommand)}`;
     logger.log('Windows launch (generic + WSL fallback)', {
       command,
       app,
@@ -170,80 +388,207 @@ const buildWindowsLaunch = (
   }
 
   if (lowerApp === 'cmd.exe' || lowerApp === 'cmd') {
-    const command = toolCommand
-      ? `start "" cmd.exe /K "${cdCommand}${tool}"`
-      : `start "" cmd.exe /K "${cdCommand}"`;
+    const command = `start "" cmd.exe /K ${wrapCmdCommandLine(`${cdCommand}${tool}`)}`;
     logger.log('Windows launch (cmd.exe)', { command, toolCommand, vaultPath });
     return { command };
   }
 
-  if (lowerApp === 'powershell' || lowerApp === 'powershell.exe') {
-    if (!toolCommand) {
-      const command = `start "" powershell -NoExit -Command "Set-Location '${vaultPath.replace(
-        /'/g,
-        "''"
-      )}';"`;
-      logger.log('Windows launch (powershell)', { command, toolCommand, vaultPath });
-      return { command };
-    }
-    const command = `start "" powershell -NoExit -Command "Set-Location '${vaultPath.replace(
-      /'/g,
-      "''"
-    )}'; ${toolCommand}"`;
-    logger.log('Windows launch (powershell tool)', { command, toolCommand, vaultPath });
+  if (isPowershellApp(lowerApp)) {
+    const setLocation = `Set-Location -LiteralPath ${quotePowershell(vaultPath)}`;
+    const psScript = toolCommand ? `${setLocation}; ${toolCommand}` : setLocation;
+    const command = `start "" powershell -NoExit -Command ${quoteCmd(psScript)}`;
+    logger.log(toolCommand ? 'Windows launch (powershell tool)' : 'Windows launch (powershell)', {
+      command,
+      toolCommand,
+      vaultPath
+    });
     return { command };
   }
 
   if (lowerApp === 'wt.exe' || lowerApp === 'wt') {
-    const command = toolCommand
-      ? `start "" wt.exe new-tab cmd /K "${cdCommand}${tool}"`
-      : `start "" wt.exe new-tab cmd /K "${cdCommand}"`;
+    const command = `start "" wt.exe new-tab cmd /K ${wrapCmdCommandLine(`${cdCommand}${tool}`)}`;
     logger.log('Windows launch (wt)', { command, toolCommand, vaultPath });
     return { command };
   }
 
   if (!toolCommand) {
-    const command = `start "" "${app}"`;
+    const command = `start "" ${quoteCmd(app)}`;
     logger.log('Windows launch (generic simple)', { command, vaultPath });
     return { command };
   }
 
-  const command = `start "" cmd.exe /K "${cdCommand}${tool}"`;
+  const command = `start "" cmd.exe /K ${wrapCmdCommandLine(`${cdCommand}${tool}`)}`;
   logger.log('Windows launch (generic tool fallback)', { command, app, toolCommand, vaultPath });
   return { command };
 };
 
-const buildUnixLaunch = (terminalApp: string, toolCommand?: string): LaunchCommand | null => {
+export type UnixTerminalProfile = {
+  label: string;
+  executables: readonly string[];
+  // Arguments that start the terminal in `cwd`; omitted when the emulator has no such flag
+  // and relies on the inherited process working directory instead.
+  cwdArgs?: (cwd: string) => string[];
+  // Arguments that make the terminal run `argv` instead of the default shell.
+  execArgs: (argv: string[]) => string[];
+};
+
+const unixTerminalProfiles: readonly UnixTerminalProfile[] = [
+  {
+    label: 'gnome-terminal',
+    executables: ['gnome-terminal'],
+    cwdArgs: (cwd) => [`--working-directory=${cwd}`],
+    execArgs: (argv) => ['--', ...argv]
+  },
+  {
+    label: 'konsole',
+    executables: ['konsole'],
+    cwdArgs: (cwd) => ['--workdir', cwd],
+    execArgs: (argv) => ['-e', ...argv]
+  },
+  {
+    label: 'kitty',
+    executables: ['kitty'],
+    cwdArgs: (cwd) => ['--directory', cwd],
+    execArgs: (argv) => argv
+  },
+  {
+    label: 'alacritty',
+    executables: ['alacritty'],
+    cwdArgs: (cwd) => ['--working-directory', cwd],
+    execArgs: (argv) => ['-e', ...argv]
+  },
+  {
+    label: 'wezterm',
+    executables: ['wezterm'],
+    cwdArgs: (cwd) => ['start', '--cwd', cwd],
+    execArgs: (argv) => ['--', ...argv]
+  },
+  {
+    label: 'foot',
+    executables: ['foot', 'footclient'],
+    cwdArgs: (cwd) => [`--working-directory=${cwd}`],
+    execArgs: (argv) => argv
+  },
+  {
+    label: 'xfce4-terminal',
+    executables: ['xfce4-terminal'],
+    cwdArgs: (cwd) => [`--working-directory=${cwd}`],
+    execArgs: (argv) => ['-x', ...argv]
+  },
+  {
+    label: 'tilix',
+    executables: ['tilix'],
+    cwdArgs: (cwd) => [`--working-directory=${cwd}`],
+    // Tilix parses `-e` as a single command line rather than an argv list.
+    execArgs: (argv) => ['-e', argv.map(quotePosix).join(' ')]
+  },
+  {
+    label: 'terminator',
+    executables: ['terminator'],
+    cwdArgs: (cwd) => [`--working-directory=${cwd}`],
+    execArgs: (argv) => ['-x', ...argv]
+  },
+  {
+    label: 'urxvt',
+    executables: ['urxvt', 'rxvt-unicode', 'urxvtc'],
+    cwdArgs: (cwd) => ['-cd', cwd],
+    execArgs: (argv) => ['-e', ...argv]
+  }
+];
+
+const genericUnixTerminalProfile: UnixTerminalProfile = {
+  label: 'generic',
+  executables: [],
+  execArgs: (argv) => ['-e', ...argv]
+};
+
+const getExecutableName = (app: string): string => {
+  const [executable = ''] = app.split(/\s+/);
+  return executable.split('/').pop() ?? executable;
+};
+
+export const resolveUnixTerminalProfile = (terminalApp: string): UnixTerminalProfile => {
+  const executable = getExecutableName(sanitizeTerminalApp(terminalApp));
+  return (
+    unixTerminalProfiles.find((profile) => profile.executables.includes(executable)) ??
+    genericUnixTerminalProfile
+  );
+};
+
+const expandUnixArgumentTemplate = (template: string, cwd: string, script: string): string =>
+  template.replace(/\{(cwd|command)\}/g, (_match, name: string) =>
+    quotePosix(name === 'cwd' ? cwd : script)
+  );
+
+export const buildUnixTerminalCommand = (
+  terminalApp: string,
+  cwd: string,
+  toolCommand?: string,
+  argumentTemplate?: string,
+  shell = DEFAULT_SHELL
+): string | null => {
   const app = sanitizeTerminalApp(terminalApp);
   if (!app) {
     return null;
   }
 
-  if (!toolCommand) {
-    const command = `${app}`;
-    logger.log('Unix launch (simple)', { command });
-    return { command };
+  const scriptParts = [`cd ${quotePosix(cwd)}`];
+  if (toolCommand) {
+    scriptParts.push(toolCommand);
   }
+  scriptParts.push('exec "$SHELL"');
+  const script = scriptParts.join('; ');
 
-  const shellCommand = `cd "$PWD"; ${toolCommand}; exec "$SHELL"`;
-
-  if (app.includes('gnome-terminal')) {
-    const command = `${app} -- bash -lc "${shellCommand}"`;
-    logger.log('Unix launch (gnome-terminal)', { command, toolCommand });
-    return { command };
+  const template = argumentTemplate?.trim();
+  if (template) {
+    return `${app} ${expandUnixArgumentTemplate(template, cwd, script)}`;
   }
 
-  if (app.includes('konsole')) {
-    const command = `${app} -e bash -lc "${shellCommand}"`;
-    logger.log('Unix launch (konsole)', { command, toolCommand });
-    return { command };
+  const profile = resolveUnixTerminalProfile(app);
+  const args = profile.cwdArgs ? profile.cwdArgs(cwd) : [];
+  if (toolCommand) {
+    args.push(...profile.execArgs([shell, '-lc', script]));
+  }
+  if (args.length === 0) {
+    return app;
   }
+  return `${app} ${args.map(quotePosix).join(' ')}`;
+};
 
-  const command = `${app} -e bash -lc "${shellCommand}"`;
-  logger.log('Unix launch (generic tool)', { command, toolCommand });
+const buildUnixLaunch = (
+  terminalApp: string,
+  cwd: string,
+  toolCommand?: string,
+  argumentTemplate?: string,
+  shell?: string
+): LaunchCommand | null => {
+  const command = buildUnixTerminalCommand(terminalApp, cwd, toolCommand, argumentTemplate, shell);
+  if (!command) {
+    return null;
+  }
+  const profile = argumentTemplate?.trim()
+    ? 'custom template'
+    : resolveUnixTerminalProfile(terminalApp).label;
+  logger.log(`Unix launch (${profile})`, { command, cwd, toolCommand });
   return { command };
 };
 
+const isPowershellApp = (lowerApp: string): boolean =>
+  lowerApp === 'powershell' || lowerApp === 'powershell.exe';
+
+export const getToolCommandDialect = (
+  terminalApp: string,
+  options?: LaunchOptions
+): ShellDialect => {
+  if (!Platform.isWin) {
+    return 'posix';
+  }
+  if (options?.useWslOnWindows) {
+    return 'wsl';
+  }
+  return isPowershellApp(sanitizeTerminalApp(terminalApp).toLowerCase()) ? 'powershell' : 'cmd';
+};
+
 export const buildLaunchCommand = (
   terminalApp: string,
   vaultPath: string,
@@ -253,11 +598,33 @@ export const buildLaunchCommand = (
   if (!Platform.isDesktopApp) {
     return null;
   }
+  const session = options?.session;
+  if (session) {
+    // Native Windows shells have no tmux or zellij; they are only reachable through WSL.
+    if (!Platform.isWin || options?.useWslOnWindows) {
+      toolCommand = buildMultiplexerCommand(session, toolCommand, options?.shell || undefined);
+    } else {
+      logger.log('Session ignored without WSL', { session });
+    }
+  }
   if (Platform.isMacOS) {
-    return buildMacLaunch(terminalApp, vaultPath, toolCommand);
+    return buildMacLaunch(
+      terminalApp,
+      vaultPath,
+      toolCommand,
+      options?.env,
+      options?.macOpenMode,
+      options?.shell || undefined
+    );
   }
   if (Platform.isWin) {
     return buildWindowsLaunch(terminalApp, vaultPath, toolCommand, options?.useWslOnWindows);
   }
-  return buildUnixLaunch(terminalApp, toolCommand);
+  return buildUnixLaunch(
+    terminalApp,
+    vaultPath,
+    toolCommand,
+    options?.unixArgumentTemplate,
+    options?.shell || undefined
+  );
 };
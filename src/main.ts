@@ -1,10 +1,103 @@
 import { spawn } from 'child_process';
 
-import { FileSystemAdapter, Notice, Platform, Plugin } from 'obsidian';
+import {
+  FileSystemAdapter,
+  MarkdownView,
+  Menu,
+  Notice,
+  Platform,
+  Plugin,
+  setIcon,
+  TFile,
+  TFolder,
+  type TAbstractFile
+} from 'obsidian';
 
+import { AutoSync } from './auto-sync';
+import { findCodeBlockAt, formatCaptureBlock, insertAfterLine, runCapture } from './capture';
+import { BranchSuggestModal } from './branch-modal';
+import { CommitModal } from './commit-modal';
+import { ConflictModal } from './conflict-modal';
+import { checkUnfinishedMerge, readConflictState } from './conflicts';
 import { resolveCommandManager } from './command-manager';
-import { buildLaunchCommand, getPlatformSummary, type LaunchCommand } from './launcher';
+import { addLaunchTargetMenu } from './context-menu';
+import {
+  checkExecutable,
+  formatLaunchPreview,
+  getCommandExecutable,
+  maskSecrets,
+  type ExecutableCheck,
+  type LaunchPreview,
+  type LookupPlatform
+} from './diagnostics';
+import { addWslEnvNames, readLoginShellPath } from './env';
+import { ConfirmFolderProfileModal } from './folder-profile-modal';
+import {
+  applyFolderProfile,
+  createFolderTargets,
+  FolderProfileStore,
+  type FolderProfileFile
+} from './folder-profiles';
+import {
+  buildLaunchCommand,
+  getPlatformSummary,
+  getToolCommandDialect,
+  type LaunchCommand
+} from './launcher';
+import {
+  describeGitOutcome,
+  formatCommitMessage,
+  formatGitCommandLine,
+  getChangePaths,
+  getDiffFileSteps,
+  getGitCommitSteps,
+  getSwitchBranchSteps,
+  isGitRepository,
+  readGitBranches,
+  readGitStatus,
+  runGitSteps,
+  simpleGitActionSteps,
+  type GitChange
+} from './git';
+import { GitLogModal, GitOutputLog, GitOutputModal } from './git-log';
+import { LaunchHistory, type LaunchOrigin, type LaunchRecord } from './history';
+import { LaunchHistoryModal } from './history-modal';
 import { logger } from './logger';
+import {
+  buildMultiplexerCommand,
+  getTargetSessionName,
+  killMultiplexerSession,
+  type ActiveMultiplexer
+} from './multiplexer';
+import { ConfirmNoteCommandModal, NoteCommandSuggestModal } from './note-command-modal';
+import {
+  getCommandLabel,
+  getNoteCommands,
+  hashNoteCommands,
+  NOTE_COMMAND_LANGUAGE,
+  NOTE_COMMANDS_KEY,
+  NoteTrust,
+  type NoteCommand
+} from './note-commands';
+import { LaunchPreviewModal } from './preview-modal';
+import { getMenuTargets, getQuickLaunchItems, type QuickLaunchItem } from './quick-launch';
+import { QuickLaunchModal } from './quick-launch-modal';
+import { quoteForDialect, type ShellDialect } from './quoting';
+import {
+  createSecretStore,
+  getSecretsPath,
+  loadSecrets,
+  saveSecrets,
+  type SecretStore
+} from './secrets';
+import { SessionListModal, SessionSuggestModal } from './session-modal';
+import {
+  readTargetSessions,
+  SessionStatus,
+  type TargetSession,
+  type TargetSessionState
+} from './session-status';
+import { findEmbeddedSession, hasTmuxSession, sendToTmuxSession } from './sessions';
 import {
   DEFAULT_SETTINGS,
   getCurrentTerminalApp,
@@ -12,18 +105,767 @@ import {
   type OpenInTerminalSettings
 } from './settings';
 import { OpenInTerminalSettingTab } from './settings-tab';
-import { isTargetEnabled, launchTargets } from './targets';
+import { TargetSuggestModal } from './target-modal';
+import { createTemplateContext, expandTemplate } from './template';
+import { TERMINAL_VIEW_TYPE, TerminalView, type TerminalViewState } from './terminal-view';
+import {
+  getActiveFolderCommand,
+  getLaunchTargets,
+  getTerminalTargetTitle,
+  isTargetEnabled,
+  type GitAction,
+  type LaunchTarget,
+  type TerminalLaunchTarget
+} from './targets';
+import {
+  ACTIVE_FOLDER_WORKING_DIRECTORY,
+  DEFAULT_WORKING_DIRECTORY,
+  getFolderFullPath,
+  resolveWorkingDirectory,
+  type WorkingDirectorySetting
+} from './working-directory';
 
 const TEMP_SCRIPT_CLEANUP_DELAY_MS = 30_000;
+const FILE_ENV_VARIABLE = 'OBSIDIAN_FILE';
+const SESSION_STATUS_INTERVAL_MS = 30_000;
+const LAUNCH_HISTORY_STORAGE_KEY = 'open-in-terminal-launch-history';
+const TRUSTED_NOTES_STORAGE_KEY = 'open-in-terminal-trusted-notes';
+const TRUSTED_PROFILES_STORAGE_KEY = 'open-in-terminal-trusted-profiles';
+const NOTE_COMMAND_TARGET_ID = 'note-command';
+// Gives a new terminal time to start its session before the status bar checks again.
+const SESSION_STATUS_LAUNCH_DELAY_MS = 5_000;
+
+// Embedded terminals run the platform shell directly, whatever the configured terminal app is.
+const getEmbeddedShellDialect = (): ShellDialect => (Platform.isWin ? 'cmd' : 'posix');
+
+type PreparedLaunch = {
+  toolCommand?: string;
+  env: Record<string, string>;
+};
+
+type LaunchLocation = {
+  cwd: string;
+  file?: TFile;
+  // Text appended to the tool command as its initial prompt.
+  prompt?: string;
+  // Vault-relative folder whose profiles apply; defaults to the folder of `file`.
+  folder?: string;
+  // An already expanded command that replaces the target's own, when a launch runs again.
+  toolCommand?: string;
+};
+
+const getLaunchFolder = (location: Pick<LaunchLocation, 'file' | 'folder'>): string => {
+  const folder = location.folder ?? location.file?.parent?.path ?? '';
+  return folder === '/' ? '' : folder;
+};
 
 export default class OpenInTerminalPlugin extends Plugin {
   private registeredCommandIds = new Set<string>();
+  private readonly gitLog = new GitOutputLog();
+  private autoSync: AutoSync | null = null;
+  private sessionStatus: SessionStatus | null = null;
+  private secretsPath: string | null = null;
+  private folderProfiles: FolderProfileStore | null = null;
+  private loginShellPath: Promise<string | null> = Promise.resolve(null);
+  secrets: SecretStore = createSecretStore();
+  private launchHistory: LaunchHistory = new LaunchHistory([], () => {});
+  noteTrust: NoteTrust = new NoteTrust({}, () => {});
+  profileTrust: NoteTrust = new NoteTrust({}, () => {});
+  private readonly captures = new Set<AbortController>();
+  private ribbonIconEl: HTMLElement | null = null;
+  private launcherStatusEl: HTMLElement | null = null;
   settings: OpenInTerminalSettings = { ...DEFAULT_SETTINGS };
 
   async onload() {
     await this.loadSettings();
+    // Kept per device like trusted notes, so that profiles arriving through sync still ask.
+    this.profileTrust = new NoteTrust(this.loadLocalData(TRUSTED_PROFILES_STORAGE_KEY), (trusted) =>
+      this.saveLocalData(TRUSTED_PROFILES_STORAGE_KEY, trusted)
+    );
     this.addSettingTab(new OpenInTerminalSettingTab(this.app, this));
+    this.registerView(
+      TERMINAL_VIEW_TYPE,
+      (leaf) => new TerminalView(leaf, (state) => this.getRestoredTerminalEnv(state))
+    );
+    this.addCommand({
+      id: 'show-git-log',
+      name: 'Show Git output log',
+      callback: () => {
+        new GitLogModal(this.app, this.gitLog).open();
+      }
+    });
+    this.addCommand({
+      id: 'open-folder-target',
+      name: "Open target from current note's folder profile",
+      callback: () => {
+        const file = this.app.workspace.getActiveFile() ?? undefined;
+        const targets = this.getFolderTargets(getLaunchFolder({ file }));
+        if (targets.length === 0) {
+          new Notice("No folder profile adds a target for the current note's folder.");
+          return;
+        }
+        new TargetSuggestModal(this.app, targets, 'Open…', (target) => {
+          void this.runTerminalTarget(target);
+        }).open();
+      }
+    });
+    this.addCommand({
+      id: 'preview-launch',
+      name: 'Preview launch',
+      callback: () => {
+        new TargetSuggestModal(
+          this.app,
+          this.getTerminalTargets(),
+          'Preview launch of…',
+          (target) => {
+            void this.openLaunchPreview(target);
+          }
+        ).open();
+      }
+    });
+    this.addCommand({
+      id: 'send-selection-to-agent',
+      name: 'Send selection to agent',
+      editorCheckCallback: (checking, editor) => {
+        const selection = editor.getSelection();
+        if (!selection.trim()) {
+          return false;
+        }
+        if (!checking) {
+          this.chooseAgentTarget(selection);
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'send-note-to-agent',
+      name: 'Send current note to agent',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+        if (!file) {
+          return false;
+        }
+        if (!checking) {
+          void this.app.vault.cachedRead(file).then((content) => {
+            this.chooseAgentTarget(content);
+          });
+        }
+        return true;
+      }
+    });
+    this.registerLaunchHistory();
+    this.registerNoteCommands();
+    this.registerCapture();
+    this.registerLauncher();
     this.refreshCommands();
+    this.registerContextMenus();
+    this.registerAutoSync();
+    this.registerSessions();
+  }
+
+  onunload() {
+    this.captures.forEach((capture) => capture.abort());
+    this.autoSync?.stop();
+    this.autoSync?.pushOnUnload();
+  }
+
+  private registerAutoSync() {
+    const autoSync = new AutoSync(
+      {
+        getSettings: () => this.settings,
+        getVaultPath: () => {
+          const adapter = this.app.vault.adapter;
+          return adapter instanceof FileSystemAdapter ? adapter.getBasePath() : null;
+        },
+        log: this.gitLog,
+        onConflict: () => {
+          void this.openConflictAssistant();
+        }
+      },
+      this.addStatusBarItem()
+    );
+    this.autoSync = autoSync;
+
+    this.addCommand({
+      id: 'git-sync-now',
+      name: 'Git: sync now',
+      callback: () => {
+        void autoSync.syncNow();
+      }
+    });
+    this.addCommand({
+      id: 'toggle-auto-sync-pause',
+      name: 'Pause or resume Git auto-sync',
+      callback: async () => {
+        this.settings.autoSyncPaused = !this.settings.autoSyncPaused;
+        await this.saveSettings();
+        new Notice(this.settings.autoSyncPaused ? 'Git auto-sync paused' : 'Git auto-sync resumed');
+      }
+    });
+
+    this.registerEvent(
+      this.app.vault.on('modify', () => {
+        autoSync.notifyVaultChange();
+      })
+    );
+    this.app.workspace.onLayoutReady(() => {
+      autoSync.start();
+    });
+  }
+
+  private registerLaunchHistory() {
+    // Local storage is per vault and per device, so the history is not synced with the vault.
+    this.launchHistory = new LaunchHistory(
+      this.loadLocalData(LAUNCH_HISTORY_STORAGE_KEY),
+      (records) => this.saveLocalData(LAUNCH_HISTORY_STORAGE_KEY, records)
+    );
+
+    this.addCommand({
+      id: 'rerun-last-launch',
+      name: 'Re-run last launch',
+      callback: () => {
+        const record = this.launchHistory.getLast();
+        if (!record) {
+          new Notice('Nothing has been launched yet.');
+          return;
+        }
+        void this.rerunLaunch(record);
+      }
+    });
+    this.addCommand({
+      id: 'open-recent-launch',
+      name: 'Open recent launch',
+      callback: () => {
+        this.chooseLaunchRecord('Run again…', (record) => {
+          void this.rerunLaunch(record);
+        });
+      }
+    });
+    this.addCommand({
+      id: 'pin-recent-launch',
+      name: 'Pin or unpin recent launch',
+      callback: () => {
+        this.chooseLaunchRecord('Pin or unpin…', (record) => {
+          this.launchHistory.togglePin(record.id);
+        });
+      }
+    });
+  }
+
+  private chooseLaunchRecord(placeholder: string, onChoose: (record: LaunchRecord) => void) {
+    const records = this.launchHistory.getRecords();
+    if (records.length === 0) {
+      new Notice('Nothing has been launched yet.');
+      return;
+    }
+    new LaunchHistoryModal(this.app, records, placeholder, onChoose).open();
+  }
+
+  /**
+   * Runs a recorded launch again with the command it ran, in its working directory. The target's
+   * current settings and environment apply; Git commands and launches of removed targets only
+   * get the global ones.
+   */
+  private async rerunLaunch(record: LaunchRecord) {
+    const target = this.getTerminalTargets().find((item) => item.id === record.targetId);
+    if (target) {
+      await this.launchTerminalTargetAt(target, {
+        cwd: record.cwd,
+        toolCommand: record.toolCommand
+      });
+      return;
+    }
+    const env = await this.getLaunchEnv();
+    this.runLaunchCommand(
+      () => this.composeLaunchCommand(record.toolCommand, record.cwd, env),
+      record.label,
+      record.cwd,
+      env,
+      { targetId: record.targetId, toolCommand: record.toolCommand }
+    );
+  }
+
+  // Obsidian keeps this data per vault and device. Versions before 1.8.7 have no such storage,
+  // so the data only lasts until Obsidian restarts there.
+  private loadLocalData(key: string): unknown {
+    return typeof this.app.loadLocalStorage === 'function' ? this.app.loadLocalStorage(key) : null;
+  }
+
+  private saveLocalData(key: string, data: unknown) {
+    if (typeof this.app.saveLocalStorage === 'function') {
+      this.app.saveLocalStorage(key, data);
+    }
+  }
+
+  private registerNoteCommands() {
+    // Kept per device, like the launch history, so that trust does not arrive through sync.
+    this.noteTrust = new NoteTrust(this.loadLocalData(TRUSTED_NOTES_STORAGE_KEY), (trusted) =>
+      this.saveLocalData(TRUSTED_NOTES_STORAGE_KEY, trusted)
+    );
+
+    this.addCommand({
+      id: 'run-from-note',
+      name: 'Run from current note',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+        if (!file) {
+          return false;
+        }
+        if (!checking) {
+          void this.chooseNoteCommand(file);
+        }
+        return true;
+      }
+    });
+
+    this.registerMarkdownCodeBlockProcessor(NOTE_COMMAND_LANGUAGE, (source, el, ctx) => {
+      el.createEl('pre').createEl('code', { text: source });
+      const command = source.trim();
+      if (!command) {
+        return;
+      }
+      const button = el.createEl('button', { text: 'Run in Terminal' });
+      button.addEventListener('click', () => {
+        const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+        if (file instanceof TFile) {
+          void this.runNoteCommand(file, { label: getCommandLabel(command), command });
+        }
+      });
+    });
+  }
+
+  private async readNoteCommands(file: TFile): Promise<NoteCommand[]> {
+    const content = await this.app.vault.cachedRead(file);
+    return getNoteCommands(content, this.app.metadataCache.getFileCache(file)?.frontmatter);
+  }
+
+  private async chooseNoteCommand(file: TFile) {
+    const commands = await this.readNoteCommands(file);
+    if (commands.length === 0) {
+      new Notice(
+        `This note has no commands. Add them under ${NOTE_COMMANDS_KEY} in the frontmatter or in ${NOTE_COMMAND_LANGUAGE} code blocks.`
+      );
+      return;
+    }
+    new NoteCommandSuggestModal(this.app, commands, (command) => {
+      void this.runNoteCommand(file, command);
+    }).open();
+  }
+
+  /**
+   * Runs a note's command from the note's folder. Notes run without asking only once trusted,
+   * and only while their commands stay the same.
+   */
+  private async runNoteCommand(file: TFile, command: NoteCommand) {
+    const commands = await this.readNoteCommands(file);
+    const hash = hashNoteCommands(commands);
+    const declared = commands.some((item) => item.command === command.command);
+    if (declared && this.noteTrust.isTrusted(file.path, hash)) {
+      await this.launchNoteCommand(file, command);
+      return;
+    }
+    new ConfirmNoteCommandModal(this.app, file.path, command, (trust) => {
+      if (trust && declared) {
+        this.noteTrust.trust(file.path, hash);
+      }
+      void this.launchNoteCommand(file, command);
+    }).open();
+  }
+
+  private async launchNoteCommand(file: TFile, command: NoteCommand) {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      new Notice('File system adapter not available. This plugin works only on desktop.');
+      return;
+    }
+    const folder = file.parent ?? this.app.vault.getRoot();
+    await this.launchTerminalTargetAt(
+      {
+        id: NOTE_COMMAND_TARGET_ID,
+        commandName: `Run ${command.label}`,
+        action: 'terminal',
+        macOpenMode: this.settings.defaultMacOpenMode,
+        launchMode: 'external'
+      },
+      // The command is run as written; template placeholders are not expanded.
+      { cwd: getFolderFullPath(adapter, folder), file, toolCommand: command.command }
+    );
+  }
+
+  private registerCapture() {
+    this.addCommand({
+      id: 'capture-target-output',
+      name: 'Capture output of target',
+      editorCheckCallback: (checking, editor, view) => {
+        const file = view.file;
+        if (!file) {
+          return false;
+        }
+        if (!checking) {
+          const line = editor.getCursor('to').line;
+          const targets = this.getTerminalTargets().filter((target) => target.toolCommand);
+          new TargetSuggestModal(this.app, targets, 'Capture output of…', (target) => {
+            void this.captureTargetOutput(target, file, line);
+          }).open();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'capture-code-block-output',
+      name: 'Capture output of code block',
+      editorCheckCallback: (checking, editor, view) => {
+        const file = view.file;
+        const selection = editor.getSelection();
+        const lines = editor.getValue().split('\n');
+        const block = selection.trim() ? null : findCodeBlockAt(lines, editor.getCursor().line);
+        if (!file?.parent || (!selection.trim() && !block?.code.trim())) {
+          return false;
+        }
+        if (!checking) {
+          const adapter = this.app.vault.adapter;
+          if (!(adapter instanceof FileSystemAdapter)) {
+            return true;
+          }
+          const command = block ? block.code.trim() : selection.trim();
+          const line = block ? block.endLine : editor.getCursor('to').line;
+          void this.getLaunchEnv().then((env) => {
+            env[FILE_ENV_VARIABLE] = adapter.getFullPath(file.path);
+            return this.captureOutput(
+              command,
+              file,
+              line,
+              getFolderFullPath(adapter, file.parent ?? this.app.vault.getRoot()),
+              env
+            );
+          });
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'cancel-captures',
+      name: 'Cancel running output captures',
+      checkCallback: (checking) => {
+        if (this.captures.size === 0) {
+          return false;
+        }
+        if (!checking) {
+          this.captures.forEach((capture) => capture.abort());
+        }
+        return true;
+      }
+    });
+  }
+
+  /** Runs the target's command from its working directory and captures what it prints. */
+  private async captureTargetOutput(configured: TerminalLaunchTarget, file: TFile, line: number) {
+    const resolved = await resolveWorkingDirectory(
+      this.app,
+      configured.workingDirectory ?? DEFAULT_WORKING_DIRECTORY
+    );
+    if ('error' in resolved) {
+      new Notice(`Unable to run ${configured.commandName}. ${resolved.error}`);
+      return;
+    }
+    const folderLaunch = this.withFolderProfile(configured, { cwd: resolved.path, file });
+    if ('error' in folderLaunch) {
+      new Notice(`Unable to run ${configured.commandName}. ${folderLaunch.error}`);
+      return;
+    }
+    const { target, location, profileFiles } = folderLaunch;
+    if (!(await this.confirmFolderProfiles(profileFiles, target, location))) {
+      return;
+    }
+    // The command runs in the system shell, as in an embedded tab.
+    const prepared = await this.prepareLaunch(target, location, true);
+    if ('error' in prepared) {
+      new Notice(prepared.error);
+      return;
+    }
+    if (!prepared.toolCommand) {
+      new Notice(`${target.commandName} has no command to run.`);
+      return;
+    }
+    await this.captureOutput(prepared.toolCommand, file, line, location.cwd, prepared.env);
+  }
+
+  /**
+   * Runs a command without a terminal and writes its output, with how it ended, into the note
+   * after `line` or into the note's output note.
+   */
+  private async captureOutput(
+    command: string,
+    file: TFile,
+    line: number,
+    cwd: string,
+    env: Record<string, string>
+  ) {
+    const capture = new AbortController();
+    this.captures.add(capture);
+    const progress = new Notice(`Running ${getCommandLabel(command)}… Click to cancel.`, 0);
+    progress.noticeEl.addEventListener('click', () => capture.abort());
+
+    const maxOutputBytes = this.settings.captureMaxOutputKb * 1024;
+    const time = new Date();
+    const result = await runCapture(command, {
+      cwd,
+      env,
+      timeoutMs: this.settings.captureTimeoutSeconds * 1000,
+      maxOutputBytes,
+      signal: capture.signal
+    });
+    this.captures.delete(capture);
+    progress.hide();
+    logger.log('Captured output', { command, cwd, code: result.code, stopped: result.stopped });
+
+    const block = formatCaptureBlock(command, result, time, maxOutputBytes);
+    try {
+      if (this.settings.captureDestination === 'file') {
+        await this.writeCaptureToOutputNote(file, line, block);
+      } else {
+        await this.app.vault.process(file, (content) => insertAfterLine(content, line, block));
+      }
+    } catch (error) {
+      console.error('[open-in-terminal] Unable to write captured output', error);
+      new Notice('Unable to write the captured output. Check the developer console for details.');
+    }
+  }
+
+  /** Appends the block to `<note>.output.md` next to the note and links it from the note once. */
+  private async writeCaptureToOutputNote(file: TFile, line: number, block: string) {
+    const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+    const outputPath = `${folder}${file.basename}.output.md`;
+    const existing = this.app.vault.getAbstractFileByPath(outputPath);
+    let output: TFile;
+    if (existing instanceof TFile) {
+      output = existing;
+      await this.app.vault.process(output, (content) => `${content.trimEnd()}\n\n${block}\n`);
+    } else {
+      output = await this.app.vault.create(outputPath, `${block}\n`);
+    }
+    const link = this.app.fileManager.generateMarkdownLink(output, file.path);
+    await this.app.vault.process(file, (content) =>
+      content.includes(link) ? content : insertAfterLine(content, line, link)
+    );
+  }
+
+  private registerLauncher() {
+    this.addCommand({
+      id: 'choose-launch-target',
+      name: 'Choose launch target…',
+      callback: () => this.openQuickLaunch()
+    });
+
+    const statusEl = this.addStatusBarItem();
+    statusEl.addClass('mod-clickable');
+    statusEl.setAttr('aria-label', 'Open in terminal or pick another target');
+    setIcon(statusEl.createSpan({ cls: 'status-bar-item-icon' }), 'terminal-square');
+    statusEl.createSpan({ text: 'Terminal' });
+    statusEl.addEventListener('click', (event) => this.openLauncherMenu(event));
+    this.launcherStatusEl = statusEl;
+    this.updateLauncher();
+  }
+
+  /** Adds or removes the ribbon icon and shows or hides the status bar item to match the settings. */
+  private updateLauncher() {
+    if (this.settings.showRibbonIcon && !this.ribbonIconEl) {
+      this.ribbonIconEl = this.addRibbonIcon('terminal-square', 'Open in Terminal', (event) =>
+        this.openLauncherMenu(event)
+      );
+    } else if (!this.settings.showRibbonIcon && this.ribbonIconEl) {
+      this.ribbonIconEl.remove();
+      this.ribbonIconEl = null;
+    }
+    this.launcherStatusEl?.toggle(this.settings.showStatusBarLauncher);
+  }
+
+  private openLauncherMenu(event: MouseEvent) {
+    const targets = getMenuTargets(
+      getLaunchTargets(this.settings).filter((target) => isTargetEnabled(this.settings, target)),
+      this.settings.hiddenMenuTargetIds
+    );
+    const menu = new Menu();
+    for (const target of targets) {
+      menu.addItem((item) =>
+        item
+          .setTitle(target.commandName)
+          .setIcon(target.action === 'git' ? 'git-branch' : 'terminal-square')
+          .onClick(() => {
+            void this.runLaunchTarget(target);
+          })
+      );
+    }
+    if (targets.length > 0) {
+      menu.addSeparator();
+    }
+    menu.addItem((item) =>
+      item
+        .setTitle('Choose launch target…')
+        .setIcon('search')
+        .onClick(() => this.openQuickLaunch())
+    );
+    menu.showAtMouseEvent(event);
+  }
+
+  /** Offers every enabled target, its variant for the active note's folder and folder profile targets. */
+  private openQuickLaunch() {
+    const file = this.app.workspace.getActiveFile() ?? undefined;
+    const items = getQuickLaunchItems(
+      getLaunchTargets(this.settings).filter((target) => isTargetEnabled(this.settings, target)),
+      file ? this.getFolderTargets(getLaunchFolder({ file })) : [],
+      file !== undefined
+    );
+    new QuickLaunchModal(this.app, items, (item) => {
+      void this.runQuickLaunchItem(item);
+    }).open();
+  }
+
+  private async runQuickLaunchItem(item: QuickLaunchItem) {
+    if (item.activeFolder && item.target.action === 'terminal') {
+      await this.runTerminalTarget(item.target, ACTIVE_FOLDER_WORKING_DIRECTORY);
+      return;
+    }
+    await this.runLaunchTarget(item.target);
+  }
+
+  private registerSessions() {
+    const sessionStatus = new SessionStatus(
+      () => this.getTargetSessions(),
+      () => this.getMultiplexerEnv(),
+      this.addStatusBarItem(),
+      () => this.openSessionList()
+    );
+    this.sessionStatus = sessionStatus;
+
+    this.addCommand({
+      id: 'list-persistent-sessions',
+      name: 'List persistent sessions',
+      callback: () => this.openSessionList()
+    });
+    this.addCommand({
+      id: 'kill-persistent-session',
+      name: 'Kill persistent session',
+      callback: async () => {
+        const running = (
+          await readTargetSessions(this.getTargetSessions(), await this.getMultiplexerEnv())
+        ).filter((state) => state.running);
+        if (running.length === 0) {
+          new Notice('No persistent session is running.');
+          return;
+        }
+        new SessionSuggestModal(this.app, running, (state) => {
+          void this.killSession(state);
+        }).open();
+      }
+    });
+
+    this.registerInterval(
+      window.setInterval(() => {
+        void sessionStatus.refresh();
+      }, SESSION_STATUS_INTERVAL_MS)
+    );
+    this.app.workspace.onLayoutReady(() => {
+      void sessionStatus.refresh();
+    });
+  }
+
+  private getTerminalTargets(): TerminalLaunchTarget[] {
+    return getLaunchTargets(this.settings).filter(
+      (target): target is TerminalLaunchTarget =>
+        target.action === 'terminal' && isTargetEnabled(this.settings, target)
+    );
+  }
+
+  /** The multiplexer session a target starts or reattaches to, if it keeps one. */
+  private getTargetSession(target: TerminalLaunchTarget): TargetSession | undefined {
+    if (!target.multiplexer) {
+      return undefined;
+    }
+    const title = getTerminalTargetTitle(target);
+    return {
+      multiplexer: target.multiplexer,
+      name: getTargetSessionName(this.app.vault.getName(), title, target.sessionName),
+      title
+    };
+  }
+
+  private getTargetSessions(): TargetSession[] {
+    const sessions: TargetSession[] = [];
+    for (const target of this.getTerminalTargets()) {
+      const session = this.getTargetSession(target);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  private openSessionList() {
+    new SessionListModal(
+      this.app,
+      async () => readTargetSessions(this.getTargetSessions(), await this.getMultiplexerEnv()),
+      (state) => this.killSession(state)
+    ).open();
+  }
+
+  private async killSession(state: TargetSessionState) {
+    const result = await killMultiplexerSession(state, await this.getMultiplexerEnv());
+    if (result.code === 0) {
+      new Notice(`Killed ${state.name}`);
+    } else {
+      new Notice(`Unable to kill ${state.name}. ${result.stderr.trim()}`);
+    }
+    await this.sessionStatus?.refresh();
+  }
+
+  private registerContextMenus() {
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        this.addContextMenu(menu, [file]);
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on('files-menu', (menu, files) => {
+        this.addContextMenu(menu, files);
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on('editor-menu', (menu, _editor, info) => {
+        if (info.file) {
+          this.addContextMenu(menu, [info.file]);
+        }
+      })
+    );
+  }
+
+  private addContextMenu(menu: Menu, files: readonly TAbstractFile[]) {
+    const location = this.resolveMenuLocation(files);
+    if (!location) {
+      return;
+    }
+    const targets = [
+      ...this.getTerminalTargets(),
+      ...this.getFolderTargets(getLaunchFolder(location))
+    ];
+    addLaunchTargetMenu(menu, targets, (target) => {
+      void this.launchTerminalTargetAt(target, location);
+    });
+  }
+
+  private resolveMenuLocation(files: readonly TAbstractFile[]): LaunchLocation | null {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter) || files.length === 0) {
+      return null;
+    }
+    const folders = files.map((file) => (file instanceof TFolder ? file : file.parent));
+    const folder = folders[0];
+    // A multi-selection only gets the menu when every entry lives in the same folder.
+    if (!folder || folders.some((item) => item !== folder)) {
+      return null;
+    }
+    const file = files.length === 1 && files[0] instanceof TFile ? files[0] : undefined;
+    return { cwd: getFolderFullPath(adapter, folder), file, folder: folder.path };
   }
 
   refreshCommands() {
@@ -38,7 +880,7 @@ export default class OpenInTerminalPlugin extends Plugin {
     }
     this.registeredCommandIds.clear();
 
-    for (const target of launchTargets) {
+    for (const target of getLaunchTargets(this.settings)) {
       if (!isTargetEnabled(this.settings, target)) {
         continue;
       }
@@ -47,46 +889,519 @@ export default class OpenInTerminalPlugin extends Plugin {
         id: target.id,
         name: target.commandName,
         callback: () => {
-          if (target.action === 'git') {
-            if (target.gitAction === 'commit-push') {
-              void this.runGitCommitPush();
-              return;
-            }
-            void this.runGitPull();
-            return;
+          void this.runLaunchTarget(target);
+        }
+      });
+      this.registeredCommandIds.add(`${this.manifest.id}:${target.id}`);
+
+      if (target.action === 'terminal') {
+        const activeFolderCommand = getActiveFolderCommand(target);
+        this.addCommand({
+          id: activeFolderCommand.id,
+          name: activeFolderCommand.name,
+          callback: () => {
+            void this.runTerminalTarget(target, ACTIVE_FOLDER_WORKING_DIRECTORY);
           }
+        });
+        this.registeredCommandIds.add(`${this.manifest.id}:${activeFolderCommand.id}`);
+      }
+    }
+  }
+
+  private async runLaunchTarget(target: LaunchTarget) {
+    if (target.action === 'git') {
+      await this.runGitTarget(target.gitAction, target.commandName);
+      return;
+    }
+    await this.runTerminalTarget(target);
+  }
+
+  private chooseAgentTarget(text: string) {
+    const targets = this.getTerminalTargets().filter(
+      (target) => this.getAgentSessionName(target) !== undefined
+    );
+    if (targets.length === 0) {
+      new Notice('Give a target a session name in the plugin settings first.');
+      return;
+    }
+    if (targets.length === 1) {
+      void this.sendToAgent(targets[0], text);
+      return;
+    }
+    new TargetSuggestModal(this.app, targets, 'Send to...', (target) => {
+      void this.sendToAgent(target, text);
+    }).open();
+  }
+
+  private getAgentSessionName(target: TerminalLaunchTarget): string | undefined {
+    return this.getTargetSession(target)?.name ?? target.sessionName;
+  }
+
+  /**
+   * Delivers text to the target's running session: an embedded tab started with the session
+   * name, then a tmux session of that name. Without either, the target is launched with the text
+   * as its initial prompt.
+   */
+  private async sendToAgent(target: TerminalLaunchTarget, text: string) {
+    const sessionName = this.getAgentSessionName(target);
+    if (!sessionName) {
+      return;
+    }
+
+    const view = findEmbeddedSession(this.app.workspace, sessionName);
+    if (view?.sendText(text)) {
+      await this.app.workspace.revealLeaf(view.leaf);
+      return;
+    }
+
+    const env = await this.getMultiplexerEnv();
+    if (await hasTmuxSession(sessionName, env)) {
+      const result = await sendToTmuxSession(sessionName, text, env);
+      if (result.code === 0) {
+        new Notice(`Sent to ${sessionName}`);
+      } else {
+        new Notice(`Unable to send to ${sessionName}. ${result.stderr.trim()}`);
+      }
+      return;
+    }
+
+    if (!target.toolCommand) {
+      new Notice(
+        `${sessionName} is not running, and ${target.commandName} has no command to start.`
+      );
+      return;
+    }
+    await this.runTerminalTarget(target, undefined, text);
+  }
+
+  private async runTerminalTarget(
+    target: TerminalLaunchTarget,
+    workingDirectory: WorkingDirectorySetting = target.workingDirectory ??
+      DEFAULT_WORKING_DIRECTORY,
+    prompt?: string
+  ) {
+    const resolved = await resolveWorkingDirectory(this.app, workingDirectory);
+    if ('error' in resolved) {
+      new Notice(`Unable to run ${target.commandName}. ${resolved.error}`);
+      return;
+    }
+
+    await this.launchTerminalTargetAt(target, {
+      cwd: resolved.path,
+      file: this.app.workspace.getActiveFile() ?? undefined,
+      prompt
+    });
+  }
+
+  private getEmbeddedCommand(target: TerminalLaunchTarget, toolCommand?: string) {
+    const session = this.getTargetSession(target);
+    return session && !Platform.isWin
+      ? buildMultiplexerCommand(session, toolCommand, target.shell)
+      : toolCommand;
+  }
+
+  /**
+   * Lays the folder profiles for the launch's folder over the target. Re-runs keep the directory
+   * they ran in. The profile files are returned for {@link confirmFolderProfiles}.
+   */
+  private withFolderProfile(
+    target: TerminalLaunchTarget,
+    location: LaunchLocation
+  ):
+    | { target: TerminalLaunchTarget; location: LaunchLocation; profileFiles: FolderProfileFile[] }
+    | { error: string } {
+    const adapter = this.app.vault.adapter;
+    if (!this.folderProfiles || !(adapter instanceof FileSystemAdapter)) {
+      return { target, location, profileFiles: [] };
+    }
+    const resolved = this.folderProfiles.resolve(getLaunchFolder(location));
+    if ('error' in resolved) {
+      return resolved;
+    }
+    const profileFiles = resolved.files;
+    const applied = applyFolderProfile(target, resolved.profile);
+    if (applied.cwd === undefined || location.toolCommand !== undefined) {
+      return { target: applied.target, location, profileFiles };
+    }
+    const folder = applied.cwd
+      ? this.app.vault.getAbstractFileByPath(applied.cwd)
+      : this.app.vault.getRoot();
+    if (!(folder instanceof TFolder)) {
+      return {
+        error: `Folder '${applied.cwd}' from a folder profile does not exist in this vault.`
+      };
+    }
+    return {
+      target: applied.target,
+      location: { ...location, cwd: getFolderFullPath(adapter, folder) },
+      profileFiles
+    };
+  }
 
-          this.runLaunchCommand(
-            () => this.composeLaunchCommand(target.toolCommand),
-            target.commandName
-          );
+  /**
+   * Profile files can arrive with a shared or synced vault and change what a target runs, so
+   * files that are new, or changed since they were trusted, ask first. Resolves to whether the
+   * launch goes ahead.
+   */
+  private confirmFolderProfiles(
+    files: readonly FolderProfileFile[],
+    target: TerminalLaunchTarget,
+    location: LaunchLocation
+  ): Promise<boolean> {
+    const untrusted = files.filter((file) => !this.profileTrust.isTrusted(file.path, file.hash));
+    if (untrusted.length === 0) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      new ConfirmFolderProfileModal(
+        this.app,
+        untrusted.map((file) => file.path),
+        target.commandName,
+        location.toolCommand ?? target.toolCommand,
+        (trust) => {
+          if (trust) {
+            untrusted.forEach((file) => this.profileTrust.trust(file.path, file.hash));
+          }
+          resolve(trust !== null);
         }
+      ).open();
+    });
+  }
+
+  /** Targets that folder profiles add for `folder`, besides the configured ones. */
+  private getFolderTargets(folder: string): TerminalLaunchTarget[] {
+    const resolved = this.folderProfiles?.resolve(folder);
+    if (!resolved || 'error' in resolved) {
+      return [];
+    }
+    return createFolderTargets(resolved.profile, this.getTerminalTargets(), {
+      macOpenMode: this.settings.defaultMacOpenMode,
+      launchMode: this.settings.defaultLaunchMode
+    });
+  }
+
+  /** Expands the target's command and collects its environment for a launch at `location`. */
+  private async prepareLaunch(
+    target: TerminalLaunchTarget,
+    location: LaunchLocation,
+    embedded: boolean
+  ): Promise<PreparedLaunch | { error: string }> {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      return { error: 'File system adapter not available. This plugin works only on desktop.' };
+    }
+
+    const env = await this.getLaunchEnv(target);
+    if (location.file) {
+      env[FILE_ENV_VARIABLE] = adapter.getFullPath(location.file.path);
+    }
+
+    if (location.toolCommand !== undefined) {
+      return { toolCommand: location.toolCommand, env };
+    }
+
+    let toolCommand = target.toolCommand;
+    if (toolCommand) {
+      const dialect = embedded ? getEmbeddedShellDialect() : this.resolveShellDialect(target);
+      const expanded = expandTemplate(
+        toolCommand,
+        createTemplateContext(this.app, adapter, location.file),
+        dialect
+      );
+      if ('error' in expanded) {
+        return { error: `Unable to run ${target.commandName}. ${expanded.error}` };
+      }
+      toolCommand = expanded.command;
+      if (location.prompt !== undefined) {
+        toolCommand = `${toolCommand} ${quoteForDialect(location.prompt, dialect)}`;
+      }
+    }
+    return { toolCommand, env };
+  }
+
+  private async launchTerminalTargetAt(
+    configured: TerminalLaunchTarget,
+    folderLocation: LaunchLocation
+  ) {
+    const folderLaunch = this.withFolderProfile(configured, folderLocation);
+    if ('error' in folderLaunch) {
+      new Notice(`Unable to run ${configured.commandName}. ${folderLaunch.error}`);
+      return;
+    }
+    const { target, location, profileFiles } = folderLaunch;
+    if (!(await this.confirmFolderProfiles(profileFiles, target, location))) {
+      return;
+    }
+    const embedded = target.launchMode === 'embedded';
+    const prepared = await this.prepareLaunch(target, location, embedded);
+    if ('error' in prepared) {
+      new Notice(prepared.error);
+      return;
+    }
+    const { toolCommand, env } = prepared;
+
+    const session = this.getTargetSession(target);
+    if (session) {
+      window.setTimeout(() => {
+        void this.sessionStatus?.refresh();
+      }, SESSION_STATUS_LAUNCH_DELAY_MS);
+    }
+
+    if (embedded) {
+      const command = this.getEmbeddedCommand(target, toolCommand);
+      if (this.settings.dryRun) {
+        this.logDryRun(target.commandName, { embedded: true, command, cwd: location.cwd });
+        return;
+      }
+      void this.openEmbeddedTerminal({
+        title: getTerminalTargetTitle(target),
+        cwd: location.cwd,
+        command,
+        env,
+        targetId: target.id,
+        sessionName: this.getAgentSessionName(target),
+        shell: target.shell
       });
-      this.registeredCommandIds.add(`${this.manifest.id}:${target.id}`);
+      return;
+    }
+
+    this.runLaunchCommand(
+      () => this.composeLaunchCommand(toolCommand, location.cwd, env, target),
+      target.commandName,
+      location.cwd,
+      Platform.isWin && this.usesWsl(target) ? addWslEnvNames(env, process.env.WSLENV) : env,
+      { targetId: target.id, toolCommand }
+    );
+  }
+
+  /** Opens the launch preview of a configured target, for the settings tab's test launch. */
+  previewTerminalTarget(targetId: string) {
+    const target = this.getTerminalTargets().find((item) => item.terminalTargetId === targetId);
+    if (!target) {
+      new Notice('Enable the target and give it a command first.');
+      return;
+    }
+    void this.openLaunchPreview(target);
+  }
+
+  private async openLaunchPreview(target: TerminalLaunchTarget) {
+    const preview = await this.buildLaunchPreview(target);
+    new LaunchPreviewModal(this.app, target.commandName, preview, () => {
+      void this.runTerminalTarget(target);
+    }).open();
+  }
+
+  /**
+   * Describes what launching the target would run, without running it. Secret values are
+   * masked.
+   */
+  private async buildLaunchPreview(configured: TerminalLaunchTarget): Promise<string> {
+    const resolved = await resolveWorkingDirectory(
+      this.app,
+      configured.workingDirectory ?? DEFAULT_WORKING_DIRECTORY
+    );
+    if ('error' in resolved) {
+      return resolved.error;
+    }
+    const folderLaunch = this.withFolderProfile(configured, {
+      cwd: resolved.path,
+      file: this.app.workspace.getActiveFile() ?? undefined
+    });
+    if ('error' in folderLaunch) {
+      return folderLaunch.error;
+    }
+    const { target, location } = folderLaunch;
+    const embedded = target.launchMode === 'embedded';
+    const prepared = await this.prepareLaunch(target, location, embedded);
+    if ('error' in prepared) {
+      return prepared.error;
+    }
+
+    let preview: LaunchPreview;
+    if (embedded) {
+      preview = {
+        terminalApp: 'Embedded terminal',
+        cwd: location.cwd,
+        command: this.getEmbeddedCommand(target, prepared.toolCommand) ?? 'Interactive shell',
+        env: prepared.env
+      };
+    } else {
+      const launchCommand = this.composeLaunchCommand(
+        prepared.toolCommand,
+        location.cwd,
+        prepared.env,
+        target
+      );
+      launchCommand?.cleanup?.();
+      if (!launchCommand) {
+        return 'No command: the terminal application name is empty or not supported here.';
+      }
+      preview = {
+        terminalApp: this.getTerminalApp(target),
+        cwd: location.cwd,
+        command: launchCommand.command,
+        script: launchCommand.script,
+        env: prepared.env
+      };
+    }
+    return maskSecrets(formatLaunchPreview(preview), this.getSecretValues());
+  }
+
+  /** Looks up the terminal apps, the targets' programs and the multiplexers they use. */
+  async runDiagnostics(): Promise<ExecutableCheck[]> {
+    const lookup = (target?: TerminalLaunchTarget): LookupPlatform => {
+      if (Platform.isWin) {
+        return this.usesWsl(target) ? 'wsl' : 'win';
+      }
+      return 'posix';
+    };
+    const checkApp = async (label: string, app: string, env: Record<string, string>) => {
+      if (Platform.isMacOS) {
+        return checkExecutable(label, app, 'macos-app', env, false);
+      }
+      const name = getCommandExecutable(app) ?? app;
+      return checkExecutable(label, name, Platform.isWin ? 'win' : 'posix', env, false);
+    };
+
+    const env = await this.getLaunchEnv();
+    const checks = [await checkApp('Terminal application', this.getTerminalApp(), env)];
+    const multiplexers = new Set<ActiveMultiplexer>();
+    for (const target of this.getTerminalTargets()) {
+      const targetEnv = await this.getLaunchEnv(target);
+      const targetApp = this.getTargetTerminalApp(target);
+      if (targetApp) {
+        checks.push(
+          await checkApp(`${target.commandName}: terminal application`, targetApp, targetEnv)
+        );
+      }
+      const executable = target.toolCommand && getCommandExecutable(target.toolCommand);
+      if (executable) {
+        checks.push(
+          await checkExecutable(target.commandName, executable, lookup(target), targetEnv, true)
+        );
+      }
+      if (target.multiplexer) {
+        multiplexers.add(target.multiplexer);
+      }
     }
+    for (const multiplexer of Array.from(multiplexers)) {
+      checks.push(
+        await checkExecutable(
+          'Persistent sessions',
+          multiplexer,
+          Platform.isWin ? 'wsl' : 'posix',
+          env,
+          false
+        )
+      );
+    }
+    return checks;
+  }
+
+  private getSecretValues(): string[] {
+    const values = Object.values(this.secrets.global);
+    for (const env of Object.values(this.secrets.targets)) {
+      values.push(...Object.values(env));
+    }
+    return values;
+  }
+
+  // macOS `.command` scripts export the variables, secrets included, so whatever is logged or
+  // kept in the launch history about a launch goes through this first.
+  private hideSecrets(text: string): string {
+    return maskSecrets(text, this.getSecretValues());
+  }
+
+  /**
+   * Environment for the tmux and zellij calls that list, kill and send to sessions: only the login
+   * shell's PATH, so that the multiplexer is found where launches find it.
+   */
+  private async getMultiplexerEnv(): Promise<Record<string, string>> {
+    const loginShellPath = await this.loginShellPath;
+    return loginShellPath ? { PATH: loginShellPath } : {};
+  }
+
+  /**
+   * Environment for a launch, from lowest to highest precedence: the login shell's PATH, the
+   * global variables, the global secrets, and the target's own variables and secrets.
+   */
+  private async getLaunchEnv(target?: TerminalLaunchTarget): Promise<Record<string, string>> {
+    const env: Record<string, string> = {};
+    const loginShellPath = await this.loginShellPath;
+    if (loginShellPath) {
+      env.PATH = loginShellPath;
+    }
+    Object.assign(env, this.settings.globalEnv, this.secrets.global);
+    if (target) {
+      Object.assign(env, target.env);
+      if (target.terminalTargetId) {
+        Object.assign(env, this.secrets.targets[target.terminalTargetId]);
+      }
+    }
+    return env;
+  }
+
+  // Embedded tabs don't save their environment, so one restored with the workspace gets its
+  // target's current variables and secrets. Folder profile variables are not applied again.
+  private getRestoredTerminalEnv(state: TerminalViewState): Promise<Record<string, string>> {
+    const target = this.getTerminalTargets().find((item) => item.id === state.targetId);
+    return this.getLaunchEnv(target);
   }
 
-  private composeLaunchCommand(toolCommand?: string): LaunchCommand | null {
+  private async openEmbeddedTerminal(state: TerminalViewState) {
+    const workspace = this.app.workspace;
+    const leaf =
+      this.settings.embeddedTerminalLocation === 'sidebar'
+        ? workspace.getRightLeaf(false)
+        : workspace.getLeaf('split');
+    if (!leaf) {
+      new Notice('Unable to open an embedded tab.');
+      return;
+    }
+    await leaf.setViewState({ type: TERMINAL_VIEW_TYPE, active: true, state });
+    await workspace.revealLeaf(leaf);
+  }
+
+  private composeLaunchCommand(
+    toolCommand?: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    target?: TerminalLaunchTarget
+  ): LaunchCommand | null {
     const adapter = this.app.vault.adapter;
     if (!(adapter instanceof FileSystemAdapter)) {
       return null;
     }
-    const vaultPath = adapter.getBasePath();
-    const terminalApp = getCurrentTerminalApp(this.settings.terminalApp);
-    const launchCommand = buildLaunchCommand(terminalApp, vaultPath, toolCommand, {
-      useWslOnWindows: this.settings.enableWslOnWindows
+    const workingPath = cwd ?? adapter.getBasePath();
+    const targetApp = this.getTargetTerminalApp(target);
+    const terminalApp = this.getTerminalApp(target);
+    const launchCommand = buildLaunchCommand(terminalApp, workingPath, toolCommand, {
+      useWslOnWindows: this.usesWsl(target),
+      env,
+      // The custom argument template is written for the global terminal app.
+      unixArgumentTemplate: targetApp ? undefined : this.settings.linuxTerminalArguments,
+      macOpenMode: target?.macOpenMode,
+      session: target && this.getTargetSession(target),
+      shell: target?.shell
     });
     logger.log('Compose launch command', {
       platform: getPlatformSummary(),
       terminalApp,
       toolCommand,
-      vaultPath,
-      launchCommand
+      workingPath,
+      command: launchCommand && this.hideSecrets(launchCommand.command),
+      script: launchCommand?.script && this.hideSecrets(launchCommand.script)
     });
     return launchCommand;
   }
 
-  private runLaunchCommand(buildCommand: () => LaunchCommand | null, label: string) {
+  private runLaunchCommand(
+    buildCommand: () => LaunchCommand | null,
+    label: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    origin: LaunchOrigin = {}
+  ) {
     const launchCommand = buildCommand();
     if (!launchCommand) {
       new Notice(
@@ -94,34 +1409,71 @@ export default class OpenInTerminalPlugin extends Plugin {
       );
       return;
     }
-    this.executeShellCommand(launchCommand, label);
+    this.executeShellCommand(launchCommand, label, cwd, env, origin);
   }
 
-  private executeShellCommand(launchCommand: LaunchCommand, label: string) {
+  /** Spawns the launch and records it, with how it went, in the launch history. */
+  private executeShellCommand(
+    launchCommand: LaunchCommand,
+    label: string,
+    cwd?: string,
+    env?: Record<string, string>,
+    origin: LaunchOrigin = {}
+  ) {
     const adapter = this.app.vault.adapter;
     if (!(adapter instanceof FileSystemAdapter)) {
       new Notice('File system adapter not available. This plugin works only on desktop.');
       return;
     }
 
-    const vaultPath = adapter.getBasePath();
+    const workingPath = cwd ?? adapter.getBasePath();
+    const record = this.launchHistory.add({
+      ...origin,
+      label,
+      cwd: workingPath,
+      command: this.hideSecrets(launchCommand.command),
+      timestamp: Date.now(),
+      outcome: this.settings.dryRun ? 'dry-run' : 'started'
+    });
+
+    if (this.settings.dryRun) {
+      this.logDryRun(label, {
+        command: record.command,
+        script: launchCommand.script && this.hideSecrets(launchCommand.script),
+        cwd: workingPath
+      });
+      launchCommand.cleanup?.();
+      return;
+    }
 
     try {
-      logger.log('Spawning command', { label, command: launchCommand.command, vaultPath });
+      logger.log('Spawning command', { label, command: record.command, workingPath });
       const child = spawn(launchCommand.command, {
-        cwd: vaultPath,
+        cwd: workingPath,
+        env: { ...process.env, ...env },
         shell: true,
         detached: true,
         stdio: 'ignore'
       });
       child.on('error', (error) => {
-        console.error(`[open-in-terminal] Failed to run '${launchCommand.command}':`, error);
+        console.error(`[open-in-terminal] Failed to run '${record.command}':`, error);
+        this.launchHistory.setOutcome(record.id, 'failed', error.message);
         new Notice(`Failed to run ${label}. Check the developer console for details.`);
       });
+      child.on('exit', (code) => {
+        if (code) {
+          this.launchHistory.setOutcome(record.id, 'failed', `exit code ${code}`);
+        }
+      });
       child.unref();
       logger.log('Spawned command successfully', { label });
     } catch (error) {
-      console.error(`[open-in-terminal] Unexpected error for '${launchCommand.command}':`, error);
+      console.error(`[open-in-terminal] Unexpected error for '${record.command}':`, error);
+      this.launchHistory.setOutcome(
+        record.id,
+        'failed',
+        error instanceof Error ? error.message : String(error)
+      );
       new Notice(`Failed to run ${label}. Check the developer console for details.`);
     } finally {
       if (launchCommand.cleanup) {
@@ -137,34 +1489,262 @@ export default class OpenInTerminalPlugin extends Plugin {
     }
   }
 
+  private logDryRun(label: string, details: Record<string, unknown>) {
+    logger.log(`Dry run, not launching ${label}`, details);
+    const hint = logger.enabled
+      ? 'See the developer console for the command.'
+      : 'Turn on debug logging to see the command in the developer console.';
+    new Notice(`Dry run: ${label} was not launched. ${hint}`);
+  }
+
   async loadSettings() {
     this.settings = normalizeSettings(await this.loadData());
+    logger.setEnabled(this.settings.debugLogging);
+    const adapter = this.app.vault.adapter;
+    if (adapter instanceof FileSystemAdapter) {
+      this.secretsPath = getSecretsPath(adapter.getBasePath());
+      this.folderProfiles = new FolderProfileStore(adapter.getBasePath());
+      this.secrets = await loadSecrets(this.secretsPath);
+    }
+    this.refreshLoginShellPath();
+  }
+
+  async saveSecrets() {
+    if (!this.secretsPath) {
+      return;
+    }
+    // Secrets of deleted targets are dropped.
+    const ids = new Set(this.settings.terminalTargets.map((target) => target.id));
+    for (const id of Object.keys(this.secrets.targets)) {
+      if (!ids.has(id) || Object.keys(this.secrets.targets[id]).length === 0) {
+        delete this.secrets.targets[id];
+      }
+    }
+    try {
+      await saveSecrets(this.secretsPath, this.secrets);
+    } catch (error) {
+      console.error('[open-in-terminal] Failed to save secrets', error);
+      new Notice('Unable to save the secret environment variables.');
+    }
+  }
+
+  /** Starts reading the login shell's PATH, which launches wait for, or stops using it. */
+  refreshLoginShellPath() {
+    if (!this.settings.loadLoginShellPath || Platform.isWin) {
+      this.loginShellPath = Promise.resolve(null);
+      return;
+    }
+    const shell = process.env.SHELL || (Platform.isMacOS ? '/bin/zsh' : '/bin/bash');
+    this.loginShellPath = readLoginShellPath(shell).then((path) => {
+      logger.log('Login shell PATH', { shell, path });
+      return path;
+    });
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
     this.refreshCommands();
+    this.updateLauncher();
+    this.autoSync?.reschedule();
+  }
+
+  private async runGitTarget(action: GitAction, label: string) {
+    switch (action) {
+      case 'commit-push':
+        await this.runGitCommit(label, 'Commit and push', true);
+        return;
+      case 'commit':
+        await this.runGitCommit(label, 'Commit', false);
+        return;
+      case 'quick-commit-push':
+        await this.runGitQuickCommitPush(label);
+        return;
+      case 'switch-branch':
+        await this.runGitSwitchBranch(label);
+        return;
+      case 'diff-file':
+        await this.runGitDiffFile(label);
+        return;
+      case 'resolve-conflicts':
+        await this.openConflictAssistant();
+        return;
+      default:
+        if (!(await this.checkGitRepo())) {
+          new Notice('Not a Git repository');
+          return;
+        }
+        this.runGitAction(
+          simpleGitActionSteps[action],
+          label,
+          action === 'status' || action === 'log'
+        );
+    }
   }
 
-  private async runGitCommitPush() {
+  private async runGitCommit(label: string, title: string, push: boolean) {
+    const changes = await this.readGitChanges();
+    if (!changes) {
+      return;
+    }
+
+    const message = formatCommitMessage(this.settings.defaultCommitMessage, changes);
+    new CommitModal(this.app, title, changes, message, (selected, finalMessage) => {
+      this.runGitAction(getGitCommitSteps(finalMessage, getChangePaths(selected), push), label);
+    }).open();
+  }
+
+  private async runGitQuickCommitPush(label: string) {
+    const changes = await this.readGitChanges();
+    if (!changes) {
+      return;
+    }
+
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      return;
+    }
+    // Staging everything now would commit and publish the conflict markers.
+    const unfinishedMerge = await checkUnfinishedMerge(adapter.getBasePath());
+    if (unfinishedMerge) {
+      const enable = this.settings.enableGitResolveConflicts
+        ? ''
+        : ' Turn it on under Git commands in the plugin settings.';
+      new Notice(
+        unfinishedMerge.outcome === 'conflict'
+          ? `${unfinishedMerge.result.stderr} Run Git: resolve merge conflicts to finish it.${enable}`
+          : `Unable to check for merge conflicts. ${unfinishedMerge.result.stderr}`
+      );
+      return;
+    }
+
+    const message = formatCommitMessage(this.settings.defaultCommitMessage, changes);
+    this.runGitAction(getGitCommitSteps(message), label);
+  }
+
+  private async runGitSwitchBranch(label: string) {
+    const adapter = this.app.vault.adapter;
     const isGitRepo = await this.checkGitRepo();
-    if (!isGitRepo) {
+    if (!isGitRepo || !(adapter instanceof FileSystemAdapter)) {
       new Notice('Not a Git repository');
       return;
     }
 
-    const gitCommand = this.buildGitCommitPushCommand();
-    this.runLaunchCommand(() => this.composeLaunchCommand(gitCommand), 'Git: commit and push');
+    const result = await readGitBranches(adapter.getBasePath());
+    if ('error' in result) {
+      new Notice(`Unable to list Git branches. ${result.error}`);
+      return;
+    }
+    new BranchSuggestModal(this.app, result.branches, (branch) => {
+      this.runGitAction(getSwitchBranchSteps(branch), label);
+    }).open();
+  }
+
+  private async runGitDiffFile(label: string) {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) {
+      new Notice('Open a note to see its changes.');
+      return;
+    }
+    if (!(await this.checkGitRepo())) {
+      new Notice('Not a Git repository');
+      return;
+    }
+    this.runGitAction(getDiffFileSteps(file.path), `${label}: ${file.basename}`, true);
   }
 
-  private async runGitPull() {
+  private async readGitChanges(): Promise<GitChange[] | null> {
+    const adapter = this.app.vault.adapter;
     const isGitRepo = await this.checkGitRepo();
-    if (!isGitRepo) {
+    if (!isGitRepo || !(adapter instanceof FileSystemAdapter)) {
       new Notice('Not a Git repository');
+      return null;
+    }
+
+    const status = await readGitStatus(adapter.getBasePath());
+    if ('error' in status) {
+      new Notice(`Unable to read Git status. ${status.error}`);
+      return null;
+    }
+    if (status.changes.length === 0) {
+      new Notice('Nothing to commit');
+      return null;
+    }
+    return status.changes;
+  }
+
+  /**
+   * Runs git in a terminal or in the background, depending on the settings. `showOutput` marks
+   * commands that only report information; in the background their output opens in a modal.
+   */
+  private runGitAction(steps: string[][], label: string, showOutput = false) {
+    if (this.settings.gitExecutionMode === 'background') {
+      void this.runGitInBackground(steps, label, showOutput);
       return;
     }
+    const gitCommand = formatGitCommandLine(steps, this.resolveShellDialect());
+    void this.getLaunchEnv().then((env) => {
+      this.runLaunchCommand(
+        () => this.composeLaunchCommand(gitCommand, undefined, env),
+        label,
+        undefined,
+        env,
+        { toolCommand: gitCommand }
+      );
+    });
+  }
 
-    this.runLaunchCommand(() => this.composeLaunchCommand('git pull'), 'Git: pull');
+  private async runGitInBackground(steps: string[][], label: string, showOutput: boolean) {
+    const adapter = this.app.vault.adapter;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      new Notice('File system adapter not available. This plugin works only on desktop.');
+      return;
+    }
+
+    const progress = new Notice(`${label}…`, 0);
+    const result = await this.runLoggedGitSteps(adapter.getBasePath(), steps, label);
+    progress.hide();
+    if (showOutput && result.outcome === 'success') {
+      if (result.result.stdout.trim()) {
+        new GitOutputModal(this.app, label, result.result.stdout).open();
+      } else {
+        new Notice(`${label}: nothing to show.`);
+      }
+      return;
+    }
+    new Notice(describeGitOutcome(label, result));
+    if (result.outcome === 'conflict') {
+      await this.openConflictAssistant();
+    }
+  }
+
+  private runLoggedGitSteps(cwd: string, steps: string[][], label: string) {
+    return runGitSteps(cwd, steps, (args, stepResult) => {
+      logger.log('Ran git', { label, args, code: stepResult.code });
+      this.gitLog.add(label, args, stepResult);
+    });
+  }
+
+  private async openConflictAssistant() {
+    const adapter = this.app.vault.adapter;
+    const isGitRepo = await this.checkGitRepo();
+    if (!isGitRepo || !(adapter instanceof FileSystemAdapter)) {
+      new Notice('Not a Git repository');
+      return;
+    }
+
+    const cwd = adapter.getBasePath();
+    const state = await readConflictState(cwd);
+    if ('error' in state) {
+      new Notice(`Unable to read merge conflicts. ${state.error}`);
+      return;
+    }
+    if (!state.kind && state.paths.length === 0) {
+      new Notice('No merge in progress.');
+      return;
+    }
+    new ConflictModal(this.app, cwd, state, (steps, label) =>
+      this.runLoggedGitSteps(cwd, steps, label)
+    ).open();
   }
 
   private async checkGitRepo(): Promise<boolean> {
@@ -172,37 +1752,25 @@ export default class OpenInTerminalPlugin extends Plugin {
     if (!(adapter instanceof FileSystemAdapter)) {
       return false;
     }
-    const vaultPath = adapter.getBasePath();
+    return isGitRepository(adapter.getBasePath());
+  }
 
-    return new Promise((resolve) => {
-      const child = spawn('git', ['rev-parse', '--is-inside-work-tree'], {
-        cwd: vaultPath,
-        stdio: 'ignore'
-      });
-      child.on('close', (code) => resolve(code === 0));
-      child.on('error', () => resolve(false));
+  private resolveShellDialect(target?: TerminalLaunchTarget): ShellDialect {
+    return getToolCommandDialect(this.getTerminalApp(target), {
+      useWslOnWindows: this.usesWsl(target)
     });
   }
 
-  private buildGitCommitPushCommand(): string {
-    const normalized = this.settings.defaultCommitMessage.replace(/[\r\n]+/g, ' ').trim() || 'update';
-    const escaped = this.escapeCommitMessageForShell(normalized);
-    return `git add . && git commit -m "${escaped}" && git push`;
+  private getTerminalApp(target?: TerminalLaunchTarget): string {
+    return this.getTargetTerminalApp(target) || getCurrentTerminalApp(this.settings.terminalApp);
   }
 
-  private escapeCommitMessageForShell(message: string): string {
-    if (Platform.isWin) {
-      return message
-        .replace(/\^/g, '^^')
-        .replace(/"/g, '""')
-        .replace(/%/g, '%%')
-        .replace(/!/g, '^^!');
-    }
+  /** The target's own terminal app on this platform, or an empty string to use the global one. */
+  private getTargetTerminalApp(target?: TerminalLaunchTarget): string {
+    return target?.terminalApp ? getCurrentTerminalApp(target.terminalApp) : '';
+  }
 
-    return message
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\$/g, '\\$')
-      .replace(/`/g, '\\`');
+  private usesWsl(target?: TerminalLaunchTarget): boolean {
+    return target?.useWsl ?? this.settings.enableWslOnWindows;
   }
 }
@@ -0,0 +1,38 @@
+import { App, Modal, Setting } from 'obsidian';
+
+import type { LaunchTarget } from './targets';
+
+/** Lets the user pick which enabled targets the ribbon and status bar menus list. */
+export class MenuTargetsModal extends Modal {
+  constructor(
+    app: App,
+    private readonly targets: readonly LaunchTarget[],
+    private readonly hiddenTargetIds: readonly string[],
+    private readonly onChange: (hiddenTargetIds: string[]) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Ribbon and status bar menus');
+    const hidden = new Set(this.hiddenTargetIds);
+
+    for (const target of this.targets) {
+      new Setting(contentEl).setName(target.commandName).addToggle((toggle) =>
+        toggle.setValue(!hidden.has(target.id)).onChange(async (value) => {
+          if (value) {
+            hidden.delete(target.id);
+          } else {
+            hidden.add(target.id);
+          }
+          await this.onChange([...hidden]);
+        })
+      );
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
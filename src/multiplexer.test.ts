@@ -0,0 +1,144 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import {
+  buildMultiplexerCommand,
+  getTargetSessionName,
+  killMultiplexerSession,
+  listMultiplexerSessions,
+  normalizeSessionName,
+  parseSessionList,
+  runMultiplexer
+} from './multiplexer';
+
+const hasTmux = (() => {
+  try {
+    execFileSync('tmux', ['-V'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('normalizeSessionName', () => {
+  it('keeps names that tmux accepts and replaces everything else', () => {
+    expect(normalizeSessionName('claude')).toBe('claude');
+    expect(normalizeSessionName('  My vault: notes.md ')).toBe('My-vault-notes-md');
+    expect(normalizeSessionName('...')).toBe('');
+  });
+
+  it('names sessions after the vault and target unless the target has a name', () => {
+    expect(getTargetSessionName('My Vault', 'Claude Code')).toBe('My-Vault-Claude-Code');
+    expect(getTargetSessionName('My Vault', 'Claude Code', 'agent')).toBe('agent');
+  });
+});
+
+describe('buildMultiplexerCommand', () => {
+  it('attaches to or creates a tmux session running the tool', () => {
+    expect(buildMultiplexerCommand({ multiplexer: 'tmux', name: 'notes-claude' }, 'claude')).toBe(
+      `tmux new-session -A -s notes-claude claude`
+    );
+    expect(buildMultiplexerCommand({ multiplexer: 'zellij', name: 'notes' })).toBe(
+      `zellij attach --create notes`
+    );
+  });
+
+  // A stub zellij refuses to attach and prints the layout it was started with.
+  const readLayout = (command: string) =>
+    execFileSync(
+      '/bin/sh',
+      ['-c', `zellij() { [ "$1" = attach ] && return 1; cat "$4"; }; ${command}`],
+      {
+        env: { ...process.env, SHELL: '/usr/bin/zsh' }
+      }
+    ).toString();
+
+  it('writes a zellij layout that runs the tool when the session is new', () => {
+    const command = buildMultiplexerCommand(
+      { multiplexer: 'zellij', name: 'notes-claude' },
+      `claude "it's \\ done"`
+    );
+    expect(readLayout(command)).toBe(
+      'layout {\n  pane command="/usr/bin/zsh" {\n    args "-lc" "claude \\"it\'s \\\\ done\\""\n  }\n}\n'
+    );
+  });
+
+  it("runs the zellij pane through the target's shell", () => {
+    const command = buildMultiplexerCommand(
+      { multiplexer: 'zellij', name: 'notes-claude' },
+      'claude',
+      'fish'
+    );
+    expect(readLayout(command)).toBe(
+      'layout {\n  pane command="fish" {\n    args "-lc" "claude"\n  }\n}\n'
+    );
+  });
+});
+
+describe('listMultiplexerSessions', () => {
+  it('finds the multiplexer on the PATH it is given', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'open-in-terminal-path-'));
+    try {
+      writeFileSync(
+        join(directory, 'zellij'),
+        '#!/bin/sh\necho "notes-claude [Created 1m ago]"\n',
+        {
+          mode: 0o755
+        }
+      );
+      expect(await listMultiplexerSessions('zellij', { PATH: '/nonexistent' })).toEqual([]);
+      expect(
+        await listMultiplexerSessions('zellij', { PATH: `${directory}:${process.env.PATH}` })
+      ).toEqual(['notes-claude']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseSessionList', () => {
+  it('skips zellij sessions that have exited', () => {
+    const output = [
+      'notes-claude [Created 2h 3m ago] (current)',
+      'notes-codex [Created 1day ago] (EXITED - attach to resurrect)',
+      ''
+    ].join('\n');
+    expect(parseSessionList('zellij', output)).toEqual(['notes-claude']);
+    expect(parseSessionList('tmux', 'notes-claude\nother\n')).toEqual(['notes-claude', 'other']);
+  });
+});
+
+describe.runIf(hasTmux)('tmux sessions', () => {
+  let directory = '';
+
+  beforeAll(() => {
+    // A private socket directory keeps the test away from any tmux server the user runs.
+    directory = mkdtempSync(join(tmpdir(), 'open-in-terminal-multiplexer-'));
+    process.env.TMUX_TMPDIR = directory;
+    delete process.env.TMUX;
+  });
+
+  afterAll(async () => {
+    await runMultiplexer('tmux', ['kill-server']);
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env.TMUX_TMPDIR;
+  });
+
+  it('lists and kills running sessions', async () => {
+    expect(await listMultiplexerSessions('tmux')).toEqual([]);
+    await runMultiplexer('tmux', ['new-session', '-d', '-s', 'notes-claude', 'sleep 60']);
+    await runMultiplexer('tmux', ['new-session', '-d', '-s', 'notes-claude-2', 'sleep 60']);
+    expect((await listMultiplexerSessions('tmux')).sort()).toEqual([
+      'notes-claude',
+      'notes-claude-2'
+    ]);
+
+    const killed = await killMultiplexerSession({ multiplexer: 'tmux', name: 'notes-claude' });
+    expect(killed.code).toBe(0);
+    expect(await listMultiplexerSessions('tmux')).toEqual(['notes-claude-2']);
+  });
+});
@@ -0,0 +1,128 @@
+import { Platform } from 'obsidian';
+
+import { runProcess, type ProcessOptions, type ProcessResult } from './process';
+import { quotePosix } from './quoting';
+
+/** Which terminal multiplexer keeps a target's session alive between launches. */
+export type Multiplexer = 'none' | 'tmux' | 'zellij';
+
+export type ActiveMultiplexer = Exclude<Multiplexer, 'none'>;
+
+export const multiplexerLabels: Record<Multiplexer, string> = {
+  none: 'Off',
+  tmux: 'Tmux',
+  zellij: 'Zellij'
+};
+
+export const isMultiplexer = (value: unknown): value is Multiplexer =>
+  value === 'none' || value === 'tmux' || value === 'zellij';
+
+export type MultiplexerSession = {
+  multiplexer: ActiveMultiplexer;
+  name: string;
+};
+
+/**
+ * Turns a user-entered name into one tmux accepts and that is safe to put on a command line.
+ * tmux itself rejects `.` and `:`; other punctuation is replaced so names stay readable.
+ */
+export const normalizeSessionName = (name: string): string =>
+  name
+    .trim()
+    .replace(/[^A-Za-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** A target's own session name, or `<vault>-<target>` when it has none. */
+export const getTargetSessionName = (
+  vaultName: string,
+  targetTitle: string,
+  sessionName?: string
+): string => sessionName || normalizeSessionName(`${vaultName}-${targetTitle}`);
+
+const escapeKdl = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Returns a POSIX shell line that attaches to the named session, or creates it and runs the tool
+ * command in it. A second launch of the same target reattaches instead of starting the tool again.
+ * zellij cannot take a command on its command line, so a new session gets a one-pane layout
+ * written to a temporary file; its pane runs the tool through `shell`, or the user's `$SHELL`.
+ */
+export const buildMultiplexerCommand = (
+  session: MultiplexerSession,
+  toolCommand?: string,
+  shell?: string
+): string => {
+  const name = quotePosix(session.name);
+  if (session.multiplexer === 'tmux') {
+    return toolCommand
+      ? `tmux new-session -A -s ${name} ${quotePosix(toolCommand)}`
+      : `tmux new-session -A -s ${name}`;
+  }
+  if (!toolCommand) {
+    return `zellij attach --create ${name}`;
+  }
+  const layout = 'layout {\\n  pane command="%s" {\\n    args "-lc" "%s"\\n  }\\n}\\n';
+  const layoutShell = shell ? quotePosix(escapeKdl(shell)) : '"${SHELL:-/bin/sh}"';
+  return [
+    `zellij attach ${name} 2>/dev/null || {`,
+    'layout_dir=$(mktemp -d);',
+    `printf '${layout}' ${layoutShell} ${quotePosix(escapeKdl(toolCommand))} > "$layout_dir/layout.kdl";`,
+    `zellij --session ${name} --layout "$layout_dir/layout.kdl";`,
+    'rm -rf "$layout_dir"; }'
+  ].join(' ');
+};
+
+/**
+ * Runs the multiplexer directly, or inside WSL on Windows where it is not available natively.
+ * `env` should carry the PATH that launches get, so a multiplexer installed outside the PATH
+ * Obsidian started with is still found.
+ */
+export const runMultiplexer = (
+  multiplexer: ActiveMultiplexer,
+  args: readonly string[],
+  options: Pick<ProcessOptions, 'env' | 'input'> = {}
+): Promise<ProcessResult> =>
+  Platform.isWin
+    ? runProcess('wsl.exe', [multiplexer, ...args], options)
+    : runProcess(multiplexer, args, options);
+
+/**
+ * Reads the names from `tmux list-sessions -F '#{session_name}'` or from
+ * `zellij list-sessions --no-formatting`. zellij also lists exited sessions that it can
+ * resurrect; those are skipped because nothing runs in them.
+ */
+export const parseSessionList = (multiplexer: ActiveMultiplexer, output: string): string[] => {
+  const names: string[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || (multiplexer === 'zellij' && trimmed.includes('(EXITED'))) {
+      continue;
+    }
+    names.push(multiplexer === 'zellij' ? trimmed.split(/\s/)[0] : trimmed);
+  }
+  return names;
+};
+
+/** Lists running sessions. A multiplexer that is missing or has no server lists none. */
+export const listMultiplexerSessions = async (
+  multiplexer: ActiveMultiplexer,
+  env?: Record<string, string>
+): Promise<string[]> => {
+  const result = await runMultiplexer(
+    multiplexer,
+    multiplexer === 'tmux'
+      ? ['list-sessions', '-F', '#{session_name}']
+      : ['list-sessions', '--no-formatting'],
+    { env }
+  );
+  return result.code === 0 ? parseSessionList(multiplexer, result.stdout) : [];
+};
+
+export const killMultiplexerSession = (
+  session: MultiplexerSession,
+  env?: Record<string, string>
+): Promise<ProcessResult> =>
+  session.multiplexer === 'tmux'
+    ? runMultiplexer('tmux', ['kill-session', '-t', `=${session.name}`], { env })
+    : runMultiplexer('zellij', ['kill-session', session.name], { env });
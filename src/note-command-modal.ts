@@ -0,0 +1,73 @@
+import { App, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+
+import type { NoteCommand } from './note-commands';
+
+export class NoteCommandSuggestModal extends FuzzySuggestModal<NoteCommand> {
+  constructor(
+    app: App,
+    private readonly commands: readonly NoteCommand[],
+    private readonly onChoose: (command: NoteCommand) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Run command…');
+  }
+
+  getItems(): NoteCommand[] {
+    return [...this.commands];
+  }
+
+  getItemText(command: NoteCommand): string {
+    return command.label;
+  }
+
+  onChooseItem(command: NoteCommand) {
+    this.onChoose(command);
+  }
+}
+
+/** Asks before a note that has not been trusted runs a command. */
+export class ConfirmNoteCommandModal extends Modal {
+  constructor(
+    app: App,
+    private readonly notePath: string,
+    private readonly command: NoteCommand,
+    private readonly onConfirm: (trust: boolean) => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText('Run command from note?');
+    contentEl.createEl('p', {
+      text: `${this.notePath} wants to run this command in a terminal. Only run commands from notes you trust.`
+    });
+    contentEl.createEl('pre', { text: this.command.command });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText('Cancel').onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText('Trust note and run').onClick(() => {
+          this.close();
+          this.onConfirm(true);
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Run once')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onConfirm(false);
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getCommandLabel,
+  getNoteCommands,
+  hashNoteCommands,
+  NoteTrust,
+  readCodeBlockCommands,
+  readFrontmatterCommands
+} from './note-commands';
+
+describe('readFrontmatterCommands', () => {
+  it('reads a command, a list, or a map of names to commands', () => {
+    expect(readFrontmatterCommands({ 'terminal-commands': ' npm test ' })).toEqual([
+      { label: 'npm test', command: 'npm test' }
+    ]);
+    expect(
+      readFrontmatterCommands({
+        'terminal-commands': ['make', { name: 'Deploy', command: './deploy.sh prod' }, 3, '']
+      })
+    ).toEqual([
+      { label: 'make', command: 'make' },
+      { label: 'Deploy', command: './deploy.sh prod' }
+    ]);
+    expect(
+      readFrontmatterCommands({ 'terminal-commands': { Build: 'npm run build', Empty: null } })
+    ).toEqual([{ label: 'Build', command: 'npm run build' }]);
+  });
+
+  it('ignores notes without the key', () => {
+    expect(readFrontmatterCommands(undefined)).toEqual([]);
+    expect(readFrontmatterCommands({ tags: ['runbook'] })).toEqual([]);
+  });
+});
+
+describe('readCodeBlockCommands', () => {
+  it('reads terminal code blocks and skips other languages', () => {
+    const content = [
+      '# Runbook',
+      '```terminal',
+      'npm ci',
+      'npm test',
+      '```',
+      '```bash',
+      'rm -rf /',
+      '```',
+      '~~~~terminal Restart the server',
+      'systemctl restart app',
+      '```',
+      '~~~~',
+      '```terminal',
+      '```'
+    ].join('\n');
+    expect(readCodeBlockCommands(content)).toEqual([
+      { label: 'npm ci (+1 lines)', command: 'npm ci\nnpm test' },
+      { label: 'Restart the server', command: 'systemctl restart app\n```' }
+    ]);
+  });
+
+  it('reads a block that is never closed up to the end of the note', () => {
+    expect(readCodeBlockCommands('```terminal\r\nls -la\r\n')).toEqual([
+      { label: 'ls -la', command: 'ls -la' }
+    ]);
+  });
+});
+
+describe('note commands', () => {
+  it('lists frontmatter commands before code blocks', () => {
+    expect(
+      getNoteCommands('```terminal\nmake\n```', { 'terminal-commands': 'npm test' }).map(
+        (command) => command.command
+      )
+    ).toEqual(['npm test', 'make']);
+  });
+
+  it('shortens long labels', () => {
+    expect(getCommandLabel(`echo ${'x'.repeat(100)}`)).toHaveLength(60);
+  });
+
+  it('trusts a note only while its commands stay the same', () => {
+    const saved: Record<string, string>[] = [];
+    const trust = new NoteTrust({ 'old.md': 'abc', 'bad.md': 1 }, (trusted) =>
+      saved.push({ ...trusted })
+    );
+    const hash = hashNoteCommands([{ label: 'Test', command: 'npm test' }]);
+    expect(trust.getCount()).toBe(1);
+
+    trust.trust('runbook.md', hash);
+    expect(trust.isTrusted('runbook.md', hash)).toBe(true);
+    expect(
+      trust.isTrusted(
+        'runbook.md',
+        hashNoteCommands([{ label: 'Test', command: 'npm test; curl x' }])
+      )
+    ).toBe(false);
+    // Renaming a command does not change what runs.
+    expect(
+      trust.isTrusted('runbook.md', hashNoteCommands([{ label: 'T', command: 'npm test' }]))
+    ).toBe(true);
+
+    trust.clear();
+    expect(trust.isTrusted('runbook.md', hash)).toBe(false);
+    expect(saved).toEqual([{ 'old.md': 'abc', 'runbook.md': hash }, {}]);
+  });
+});
@@ -0,0 +1,132 @@
+import { createHash } from 'crypto';
+
+export const NOTE_COMMANDS_KEY = 'terminal-commands';
+export const NOTE_COMMAND_LANGUAGE = 'terminal';
+
+const MAX_LABEL_LENGTH = 60;
+
+/** A command that a note declares, in its frontmatter or in a `terminal` code block. */
+export type NoteCommand = {
+  label: string;
+  command: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Names a command after its first line, shortened. */
+export const getCommandLabel = (command: string): string => {
+  const lines = command.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const first = lines[0]?.trim() ?? '';
+  const label =
+    first.length > MAX_LABEL_LENGTH ? `${first.slice(0, MAX_LABEL_LENGTH - 1)}…` : first;
+  return lines.length > 1 ? `${label} (+${lines.length - 1} lines)` : label;
+};
+
+const toNoteCommand = (command: unknown, name?: unknown): NoteCommand | null => {
+  if (typeof command !== 'string' || !command.trim()) {
+    return null;
+  }
+  const label = typeof name === 'string' && name.trim() ? name.trim() : getCommandLabel(command);
+  return { label, command: command.trim() };
+};
+
+/**
+ * Reads `terminal-commands` from frontmatter: a command, a list of commands or of
+ * `{ name, command }` entries, or a map of names to commands.
+ */
+export const readFrontmatterCommands = (frontmatter: unknown): NoteCommand[] => {
+  const value = isRecord(frontmatter) ? frontmatter[NOTE_COMMANDS_KEY] : undefined;
+  let commands: (NoteCommand | null)[] = [];
+  if (typeof value === 'string') {
+    commands = [toNoteCommand(value)];
+  } else if (Array.isArray(value)) {
+    commands = value.map((entry) =>
+      isRecord(entry) ? toNoteCommand(entry.command, entry.name) : toNoteCommand(entry)
+    );
+  } else if (isRecord(value)) {
+    commands = Object.entries(value).map(([name, command]) => toNoteCommand(command, name));
+  }
+  return commands.filter((command): command is NoteCommand => command !== null);
+};
+
+/**
+ * Reads the fenced code blocks tagged `terminal`. Text after the tag on the opening fence
+ * names the command.
+ */
+export const readCodeBlockCommands = (content: string): NoteCommand[] => {
+  const commands: NoteCommand[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const open = /^ {0,3}(`{3,}|~{3,})\s*terminal(?:\s+(.*))?$/.exec(lines[index]);
+    if (!open) {
+      continue;
+    }
+    const fence = open[1];
+    const body: string[] = [];
+    index++;
+    while (
+      index < lines.length &&
+      !new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[index])
+    ) {
+      body.push(lines[index]);
+      index++;
+    }
+    const command = toNoteCommand(body.join('\n'), open[2]);
+    if (command) {
+      commands.push(command);
+    }
+  }
+  return commands;
+};
+
+export const getNoteCommands = (content: string, frontmatter: unknown): NoteCommand[] => [
+  ...readFrontmatterCommands(frontmatter),
+  ...readCodeBlockCommands(content)
+];
+
+/** Identifies the commands of a note, so that trust ends when they change. */
+export const hashNoteCommands = (commands: readonly NoteCommand[]): string =>
+  createHash('sha256')
+    .update(JSON.stringify(commands.map((command) => command.command)))
+    .digest('hex');
+
+/**
+ * Notes whose commands the user has agreed to run, by path and the hash of their commands.
+ * Folder profiles are trusted the same way, by path and the hash of the file. Every change is
+ * handed to `persist`.
+ */
+export class NoteTrust {
+  private trusted: Record<string, string> = {};
+
+  constructor(
+    stored: unknown,
+    private readonly persist: (trusted: Readonly<Record<string, string>>) => void
+  ) {
+    if (isRecord(stored)) {
+      for (const [path, hash] of Object.entries(stored)) {
+        if (typeof hash === 'string') {
+          this.trusted[path] = hash;
+        }
+      }
+    }
+  }
+
+  isTrusted(path: string, hash: string): boolean {
+    return this.trusted[path] === hash;
+  }
+
+  trust(path: string, hash: string) {
+    this.trusted[path] = hash;
+    this.persist(this.trusted);
+  }
+
+  clear() {
+    this.trusted = {};
+    this.persist(this.trusted);
+  }
+
+  getCount(): number {
+    return Object.keys(this.trusted).length;
+  }
+}
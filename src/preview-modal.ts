@@ -0,0 +1,40 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+/** Shows what a launch would run, with buttons to copy it or to launch for real. */
+export class LaunchPreviewModal extends Modal {
+  constructor(
+    app: App,
+    private readonly title: string,
+    private readonly preview: string,
+    private readonly onRun: () => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.title);
+    contentEl.createEl('pre', { text: this.preview });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText('Copy').onClick(async () => {
+          await navigator.clipboard.writeText(this.preview);
+          new Notice('Launch preview copied');
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Run now')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onRun();
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
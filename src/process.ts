@@ -0,0 +1,44 @@
+import { spawn } from 'child_process';
+
+export type ProcessResult = {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+};
+
+export type ProcessOptions = {
+  cwd?: string;
+  env?: Record<string, string>;
+  // Written to stdin before it is closed; stdin is closed right away without it.
+  input?: string;
+  // Kills the program when it runs longer; the result then has a null code.
+  timeoutMs?: number;
+};
+
+/** Runs a program without a shell and collects its output. Never rejects. */
+export const runProcess = (
+  file: string,
+  args: readonly string[],
+  options: ProcessOptions = {}
+): Promise<ProcessResult> =>
+  new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: 'pipe',
+      timeout: options.timeoutMs
+    });
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+    child.on('error', (error) => resolve({ code: null, stdout, stderr: error.message }));
+    // A program that exits early or fails to start closes stdin; the result reports that already.
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.input);
+  });
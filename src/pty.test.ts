@@ -0,0 +1,104 @@
+import { execFileSync } from 'child_process';
+
+import { describe, expect, it } from 'vitest';
+
+import { buildPtyCommand, PipeLineBuffer, resizePty, spawnPty } from './pty';
+
+const size = { cols: 90, rows: 30 };
+
+const hasScript = (() => {
+  try {
+    execFileSync('script', ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('buildPtyCommand', () => {
+  it('wraps the session in script on Linux and macOS', () => {
+    expect(buildPtyCommand('linux', '/bin/bash', 'claude', size)).toEqual({
+      file: 'script',
+      args: ['-qfec', 'stty cols 90 rows 30 2>/dev/null; claude; exec /bin/bash -l', '/dev/null'],
+      pseudoTerminal: true
+    });
+    expect(buildPtyCommand('macos', '/bin/zsh', undefined, size)).toEqual({
+      file: 'script',
+      args: [
+        '-qF',
+        '/dev/null',
+        '/bin/zsh',
+        '-lc',
+        'stty cols 90 rows 30 2>/dev/null; exec /bin/zsh -l'
+      ],
+      pseudoTerminal: true
+    });
+  });
+
+  it('runs cmd.exe on pipes on Windows', () => {
+    expect(buildPtyCommand('win', '', 'claude', size)).toEqual({
+      file: 'cmd.exe',
+      args: ['/Q', '/K', 'claude'],
+      pseudoTerminal: false
+    });
+  });
+
+  it.runIf(hasScript)('gives the tool a terminal of the requested size', async () => {
+    const command = buildPtyCommand(
+      'linux',
+      '/bin/sh',
+      'stty size; test -t 0 && echo tty; exit',
+      size
+    );
+    const { child } = spawnPty(command, process.cwd(), { SHELL: '/bin/sh' });
+    let output = '';
+    child.stdout.setEncoding('utf8').on('data', (text: string) => {
+      output += text;
+    });
+    const code = await new Promise((resolve) => child.on('close', resolve));
+    expect(code).toBe(0);
+    expect(output.split(/\r?\n/)).toEqual(expect.arrayContaining(['30 90', 'tty']));
+  });
+
+  it.runIf(hasScript)('resizes the terminal of a running session', async () => {
+    const command = buildPtyCommand('linux', '/bin/sh', 'echo ready; read line; stty size', size);
+    const session = spawnPty(command, process.cwd(), { SHELL: '/bin/sh' });
+    let output = '';
+    const waiters: (() => void)[] = [];
+    session.child.stdout.setEncoding('utf8').on('data', (text: string) => {
+      output += text;
+      waiters.forEach((check) => check());
+    });
+    const waitFor = (text: string) =>
+      new Promise<void>((resolve) => {
+        waiters.push(() => output.includes(text) && resolve());
+      });
+
+    await waitFor('ready');
+    await expect(resizePty(session, 'linux', { cols: 120, rows: 40 })).resolves.toBe(true);
+    session.child.stdin.write('\r');
+    await waitFor('40 120');
+    session.child.kill();
+  });
+
+  it('does not resize sessions without a pseudo-terminal', async () => {
+    const command = { file: 'true', args: [], pseudoTerminal: false };
+    const session = spawnPty(command, process.cwd(), {});
+    await expect(resizePty(session, 'linux', size)).resolves.toBe(false);
+  });
+});
+
+describe('PipeLineBuffer', () => {
+  it('echoes input, applies backspace and sends whole lines', () => {
+    const echoed: string[] = [];
+    const sent: string[] = [];
+    const buffer = new PipeLineBuffer(
+      (text) => echoed.push(text),
+      (text) => sent.push(text)
+    );
+    buffer.write('dirr\x7f');
+    buffer.write(' /b\r');
+    expect(sent).toEqual(['dir /b\r\n']);
+    expect(echoed.join('')).toBe('dirr\b \b /b\r\n');
+  });
+});
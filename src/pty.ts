@@ -0,0 +1,166 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+
+import { runProcess } from './process';
+import { quotePosix } from './quoting';
+
+export type PtyPlatform = 'macos' | 'linux' | 'win';
+
+export type PtySize = {
+  cols: number;
+  rows: number;
+};
+
+export type PtyCommand = {
+  file: string;
+  args: string[];
+  // False when the process talks to plain pipes and the caller has to echo input itself.
+  pseudoTerminal: boolean;
+};
+
+export type PtyProcess = {
+  child: ChildProcessWithoutNullStreams;
+  pseudoTerminal: boolean;
+};
+
+const RESIZE_TIMEOUT_MS = 5_000;
+
+const buildPosixScript = (shell: string, toolCommand: string | undefined, size: PtySize) => {
+  const commands = [`stty cols ${size.cols} rows ${size.rows} 2>/dev/null`];
+  if (toolCommand) {
+    commands.push(toolCommand);
+  }
+  commands.push(`exec ${quotePosix(shell)} -l`);
+  return commands.join('; ');
+};
+
+/**
+ * Returns the process that backs an embedded terminal. Obsidian cannot load native modules such
+ * as node-pty, so on macOS and Linux the `script` utility allocates the pseudo-terminal. The
+ * terminal size is set with `stty` when the session starts and by {@link resizePty} later.
+ * Windows has no such utility, so cmd.exe runs on plain pipes there and full-screen programs do
+ * not render correctly.
+ */
+export const buildPtyCommand = (
+  platform: PtyPlatform,
+  shell: string,
+  toolCommand: string | undefined,
+  size: PtySize
+): PtyCommand => {
+  switch (platform) {
+    case 'linux':
+      // util-linux script runs the command through $SHELL -c.
+      return {
+        file: 'script',
+        args: ['-qfec', buildPosixScript(shell, toolCommand, size), '/dev/null'],
+        pseudoTerminal: true
+      };
+    case 'macos':
+      return {
+        file: 'script',
+        args: ['-qF', '/dev/null', shell, '-lc', buildPosixScript(shell, toolCommand, size)],
+        pseudoTerminal: true
+      };
+    case 'win':
+      return {
+        file: 'cmd.exe',
+        args: toolCommand ? ['/Q', '/K', toolCommand] : ['/Q'],
+        pseudoTerminal: false
+      };
+  }
+};
+
+export const spawnPty = (
+  command: PtyCommand,
+  cwd: string,
+  env: Record<string, string>
+): PtyProcess => {
+  const child = spawn(command.file, command.args, {
+    cwd,
+    env: { ...process.env, TERM: 'xterm-256color', COLORTERM: 'truecolor', ...env },
+    // cmd.exe parses its own command line; Node's argv quoting would garble the tool command.
+    windowsVerbatimArguments: command.file === 'cmd.exe',
+    stdio: 'pipe'
+  });
+  return { child, pseudoTerminal: command.pseudoTerminal };
+};
+
+// The command that `script` starts is the only child of `script` and owns its terminal.
+const findPtyDevice = async (scriptPid: number): Promise<string | null> => {
+  const result = await runProcess('ps', ['-A', '-o', 'ppid=', '-o', 'tty='], {
+    timeoutMs: RESIZE_TIMEOUT_MS
+  });
+  for (const line of result.stdout.split('\n')) {
+    const [ppid, tty] = line.trim().split(/\s+/);
+    if (Number(ppid) === scriptPid && tty && !tty.startsWith('?')) {
+      return `/dev/${tty}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Changes the size of a running session's terminal. `script` does not pass size changes on, so
+ * the terminal it opened is set with `stty`, and the kernel sends SIGWINCH to the program in the
+ * foreground. Returns false for sessions without a pseudo-terminal or when the size was not set.
+ */
+export const resizePty = async (
+  session: PtyProcess,
+  platform: PtyPlatform,
+  size: PtySize
+): Promise<boolean> => {
+  const pid = session.child.pid;
+  if (!session.pseudoTerminal || platform === 'win' || pid === undefined) {
+    return false;
+  }
+  const device = await findPtyDevice(pid);
+  if (!device) {
+    return false;
+  }
+  const result = await runProcess(
+    'stty',
+    [
+      platform === 'macos' ? '-f' : '-F',
+      device,
+      'cols',
+      String(size.cols),
+      'rows',
+      String(size.rows)
+    ],
+    { timeoutMs: RESIZE_TIMEOUT_MS }
+  );
+  return result.code === 0;
+};
+
+/**
+ * Line editing for sessions without a pseudo-terminal: echoes typed characters, handles
+ * backspace, and sends complete lines with the line ending that cmd.exe reads from a pipe.
+ */
+export class PipeLineBuffer {
+  private line = '';
+
+  constructor(
+    private readonly echo: (text: string) => void,
+    private readonly send: (text: string) => void
+  ) {}
+
+  write(data: string) {
+    for (const char of data) {
+      if (char === '\r') {
+        this.echo('\r\n');
+        this.send(`${this.line}\r\n`);
+        this.line = '';
+      } else if (char === '\x7f' || char === '\b') {
+        if (this.line.length > 0) {
+          this.line = this.line.slice(0, -1);
+          this.echo('\b \b');
+        }
+      } else if (char === '\x03') {
+        this.echo('^C\r\n');
+        this.line = '';
+      } else if (char >= ' ') {
+        this.line += char;
+        this.echo(char);
+      }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+import type { QuickLaunchItem } from './quick-launch';
+
+export class QuickLaunchModal extends FuzzySuggestModal<QuickLaunchItem> {
+  constructor(
+    app: App,
+    private readonly items: readonly QuickLaunchItem[],
+    private readonly onChoose: (item: QuickLaunchItem) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Launch…');
+  }
+
+  getItems(): QuickLaunchItem[] {
+    return [...this.items];
+  }
+
+  getItemText(item: QuickLaunchItem): string {
+    return item.name;
+  }
+
+  onChooseItem(item: QuickLaunchItem) {
+    this.onChoose(item);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { getMenuTargets, getQuickLaunchItems } from './quick-launch';
+import type { LaunchTarget } from './targets';
+
+const terminal: LaunchTarget = {
+  id: 'open-terminal',
+  commandName: 'Open in terminal',
+  action: 'terminal'
+};
+const claude: LaunchTarget = {
+  id: 'claude',
+  commandName: 'Open in Claude Code',
+  action: 'terminal',
+  terminalTargetId: 'claude',
+  toolCommand: 'claude'
+};
+const pull: LaunchTarget = {
+  id: 'git-pull',
+  commandName: 'Git: pull',
+  action: 'git',
+  gitAction: 'pull'
+};
+const docs: LaunchTarget = {
+  id: 'folder-docs',
+  commandName: 'Open in docs server',
+  action: 'terminal',
+  toolCommand: 'npm run docs'
+};
+
+describe('getQuickLaunchItems', () => {
+  it("follows each terminal target with its variant for the note's folder", () => {
+    expect(
+      getQuickLaunchItems([terminal, pull, claude], [docs], true).map((item) => [
+        item.name,
+        item.target.id,
+        item.activeFolder
+      ])
+    ).toEqual([
+      ['Open in terminal', 'open-terminal', false],
+      ["Open in terminal at current note's folder", 'open-terminal', true],
+      ['Git: pull', 'git-pull', false],
+      ['Open in Claude Code', 'claude', false],
+      ["Open in Claude Code at current note's folder", 'claude', true],
+      ['Open in docs server', 'folder-docs', false]
+    ]);
+  });
+
+  it('leaves out the folder variants when no note is open', () => {
+    expect(getQuickLaunchItems([terminal, claude], [], false).map((item) => item.name)).toEqual([
+      'Open in terminal',
+      'Open in Claude Code'
+    ]);
+  });
+});
+
+describe('getMenuTargets', () => {
+  it('keeps the order and drops hidden targets', () => {
+    expect(getMenuTargets([terminal, claude, pull], ['claude', 'missing'])).toEqual([
+      terminal,
+      pull
+    ]);
+    expect(getMenuTargets([terminal, claude], [])).toEqual([terminal, claude]);
+  });
+});
@@ -0,0 +1,37 @@
+import { getActiveFolderCommand, type LaunchTarget } from './targets';
+
+/** An entry of the launch target picker. */
+export type QuickLaunchItem = {
+  name: string;
+  target: LaunchTarget;
+  // Starts a terminal target in the active note's folder instead of its working directory.
+  activeFolder: boolean;
+};
+
+/**
+ * Lists each target followed by its variant for the active note's folder, then the targets
+ * that folder profiles add. The variants are left out when no note is open.
+ */
+export const getQuickLaunchItems = (
+  targets: readonly LaunchTarget[],
+  folderTargets: readonly LaunchTarget[],
+  withActiveFolder: boolean
+): QuickLaunchItem[] => {
+  const items: QuickLaunchItem[] = [];
+  for (const target of targets) {
+    items.push({ name: target.commandName, target, activeFolder: false });
+    if (withActiveFolder && target.action === 'terminal') {
+      items.push({ name: getActiveFolderCommand(target).name, target, activeFolder: true });
+    }
+  }
+  for (const target of folderTargets) {
+    items.push({ name: target.commandName, target, activeFolder: false });
+  }
+  return items;
+};
+
+/** The targets that the ribbon and status bar menus list, in their configured order. */
+export const getMenuTargets = <T extends LaunchTarget>(
+  targets: readonly T[],
+  hiddenTargetIds: readonly string[]
+): T[] => targets.filter((target) => !hiddenTargetIds.includes(target.id));
@@ -0,0 +1,279 @@
+import { execFileSync } from 'child_process';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  escapeCmdDoubleQuoted,
+  escapePosixDoubleQuoted,
+  escapePosixSingleQuoted,
+  escapePowershellDoubleQuoted,
+  quoteCmd,
+  quoteForDialect,
+  quotePosix,
+  quotePowershell,
+  quoteWindowsArgument,
+  wrapCmdCommandLine
+} from './quoting';
+
+const CHARACTER_POOL = [
+  ...'abcXYZ019_-./:=',
+  ' ',
+  '\t',
+  ...`'"\`$\\%!^&|<>();*?[]{}~#,@+`,
+  ...'é笔‘’“”',
+  '🙂',
+  '\n'
+];
+
+// Deterministic pseudo-random generator (mulberry32) so failures are reproducible.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const generateStrings = (count: number, seed: number): string[] => {
+  const random = createRandom(seed);
+  const values = [
+    '',
+    ' ',
+    'plain',
+    '\\',
+    'C:\\Users\\me\\',
+    'a\\"b',
+    '"',
+    '""',
+    "it's",
+    '100% done',
+    'C:\\50\\% off',
+    '%PATH%',
+    '!USERNAME!',
+    '$HOME `whoami` $(id)',
+    '笔记 – café'
+  ];
+  while (values.length < count) {
+    const length = Math.floor(random() * 24);
+    let value = '';
+    for (let index = 0; index < length; index += 1) {
+      value += CHARACTER_POOL[Math.floor(random() * CHARACTER_POOL.length)];
+    }
+    values.push(value);
+  }
+  return values;
+};
+
+const samples = generateStrings(300, 20240611);
+
+const runPosix = (script: string): string[] =>
+  execFileSync('/bin/sh', ['-c', script]).toString().split('\0').slice(0, -1);
+
+// Splits a command line the way CommandLineToArgvW and the MSVC runtime do.
+const parseWindowsArguments = (commandLine: string): string[] => {
+  const args: string[] = [];
+  let index = 0;
+  while (index < commandLine.length) {
+    while (commandLine[index] === ' ' || commandLine[index] === '\t') {
+      index += 1;
+    }
+    if (index >= commandLine.length) {
+      break;
+    }
+    let arg = '';
+    let inQuotes = false;
+    while (index < commandLine.length) {
+      const char = commandLine[index];
+      if (char === '\\') {
+        let backslashes = 0;
+        while (commandLine[index] === '\\') {
+          backslashes += 1;
+          index += 1;
+        }
+        if (commandLine[index] === '"') {
+          arg += '\\'.repeat(Math.floor(backslashes / 2));
+          if (backslashes % 2 === 1) {
+            arg += '"';
+            index += 1;
+          }
+        } else {
+          arg += '\\'.repeat(backslashes);
+        }
+        continue;
+      }
+      if (char === '"') {
+        if (inQuotes && commandLine[index + 1] === '"') {
+          arg += '"';
+          index += 2;
+          continue;
+        }
+        inQuotes = !inQuotes;
+        index += 1;
+        continue;
+      }
+      if ((char === ' ' || char === '\t') && !inQuotes) {
+        break;
+      }
+      arg += char;
+      index += 1;
+    }
+    args.push(arg);
+  }
+  return args;
+};
+
+// Applies one cmd.exe command-line parse: variable expansion, where every plain variable name
+// counts as defined, then caret and quote handling. Unescaped operators are reported as errors.
+const parseCmdLayer = (line: string): string => {
+  let expanded = '';
+  for (let index = 0; index < line.length; index += 1) {
+    const end = line[index] === '%' ? line.indexOf('%', index + 1) : -1;
+    if (end > index + 1 && /^\w+$/.test(line.slice(index + 1, end))) {
+      expanded += '<expanded>';
+      index = end;
+    } else {
+      expanded += line[index];
+    }
+  }
+
+  let parsed = '';
+  let inQuotes = false;
+  for (let index = 0; index < expanded.length; index += 1) {
+    const char = expanded[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '^') {
+      index += 1;
+      parsed += expanded[index] ?? '';
+      continue;
+    } else if (!inQuotes && /[&|<>]/.test(char)) {
+      throw new Error(`Unescaped cmd.exe operator in ${line}`);
+    }
+    parsed += char;
+  }
+  return parsed;
+};
+
+const parsePowershellSingleQuoted = (literal: string): string => {
+  expect(literal.startsWith("'") && literal.endsWith("'")).toBe(true);
+  const body = literal.slice(1, -1);
+  let value = '';
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (/['‘’‚‛]/.test(char)) {
+      expect(body[index + 1]).toMatch(/['‘’‚‛]/);
+      index += 1;
+    }
+    value += char;
+  }
+  return value;
+};
+
+const parsePowershellDoubleQuotedBody = (body: string): string => {
+  let value = '';
+  for (let index = 0; index < body.length; index += 1) {
+    const char = body[index];
+    if (char === '`') {
+      index += 1;
+      value += body[index];
+      continue;
+    }
+    expect(char).not.toMatch(/["“”„$]/);
+    value += char;
+  }
+  return value;
+};
+
+describe('POSIX quoting', () => {
+  it('round-trips arbitrary strings through sh as single words', () => {
+    const script = `printf '%s\\0' ${samples.map(quotePosix).join(' ')}`;
+    expect(runPosix(script)).toEqual(samples);
+  });
+
+  it('round-trips strings inside double and single quotes opened by the caller', () => {
+    const doubleQuoted = samples.map((value) => `"${escapePosixDoubleQuoted(value)}"`);
+    const singleQuoted = samples.map((value) => `'${escapePosixSingleQuoted(value)}'`);
+    expect(runPosix(`printf '%s\\0' ${doubleQuoted.join(' ')}`)).toEqual(samples);
+    expect(runPosix(`printf '%s\\0' ${singleQuoted.join(' ')}`)).toEqual(samples);
+  });
+
+  it('leaves plain tokens unquoted', () => {
+    expect(quotePosix('--working-directory=/home/me/vault')).toBe(
+      '--working-directory=/home/me/vault'
+    );
+    expect(quotePosix('My Vault')).toBe("'My Vault'");
+  });
+});
+
+describe('Windows argument quoting', () => {
+  it('round-trips arbitrary strings through CommandLineToArgvW rules', () => {
+    for (const value of samples) {
+      expect(parseWindowsArguments(`wsl.exe ${quoteWindowsArgument(value)} end`)).toEqual([
+        'wsl.exe',
+        value,
+        'end'
+      ]);
+    }
+  });
+});
+
+describe('cmd.exe quoting', () => {
+  it('round-trips arbitrary strings through one cmd.exe parse', () => {
+    for (const value of samples) {
+      const commandLine = parseCmdLayer(`git commit -m ${quoteCmd(value)} end`);
+      expect(parseWindowsArguments(commandLine)).toEqual([
+        'git',
+        'commit',
+        '-m',
+        value.replace(/[\r\n]+/g, ' '),
+        'end'
+      ]);
+    }
+  });
+
+  it('round-trips strings inside double quotes opened by the caller', () => {
+    for (const value of samples) {
+      const commandLine = parseCmdLayer(`prog "say ${escapeCmdDoubleQuoted(value)}" end`);
+      expect(parseWindowsArguments(commandLine)).toEqual([
+        'prog',
+        `say ${value.replace(/[\r\n]+/g, ' ')}`,
+        'end'
+      ]);
+    }
+  });
+
+  it('passes wrapped command lines through the outer cmd.exe unchanged', () => {
+    for (const value of samples) {
+      const commandLine = `cd /d ${quoteCmd(value)} && prog ${quoteCmd(value)}`;
+      const outer = parseCmdLayer(`start "" cmd.exe /K ${wrapCmdCommandLine(commandLine)}`);
+      const argument = outer.slice(outer.indexOf('/K ') + 3);
+      // cmd.exe /K drops the first and last quote of its argument.
+      expect(argument.slice(1, -1)).toBe(commandLine);
+    }
+  });
+});
+
+describe('PowerShell quoting', () => {
+  it('round-trips arbitrary strings as single-quoted literals', () => {
+    for (const value of samples) {
+      expect(parsePowershellSingleQuoted(quotePowershell(value))).toBe(value);
+    }
+  });
+
+  it('round-trips arbitrary strings inside double-quoted strings', () => {
+    for (const value of samples) {
+      expect(parsePowershellDoubleQuotedBody(escapePowershellDoubleQuoted(value))).toBe(value);
+    }
+  });
+});
+
+describe('quoteForDialect', () => {
+  it('picks the quoting for each dialect', () => {
+    expect(quoteForDialect("it's", 'posix')).toBe(`'it'\\''s'`);
+    expect(quoteForDialect("it's", 'wsl')).toBe(`'it'\\''s'`);
+    expect(quoteForDialect("it's", 'powershell')).toBe(`'it''s'`);
+    expect(quoteForDialect('100% done', 'cmd')).toBe('"100"^%" done"');
+  });
+});
@@ -0,0 +1,128 @@
+export type ShellDialect = 'posix' | 'cmd' | 'powershell' | 'wsl';
+
+const CMD_METACHARACTERS = /[\^&|<>()!]/;
+
+const POSIX_SAFE_PATTERN = /^[\w@%+=:,./-]+$/;
+
+// PowerShell treats typographic single quotes like ASCII ones, so all of them must be doubled.
+const POWERSHELL_SINGLE_QUOTES = /['‘’‚‛]/g;
+
+const POWERSHELL_DOUBLE_QUOTES = /["“”„]/g;
+
+/** Quotes a value as one POSIX sh word, leaving plain tokens such as flags unquoted. */
+export const quotePosix = (value: string): string =>
+  POSIX_SAFE_PATTERN.test(value) ? value : `'${escapePosixSingleQuoted(value)}'`;
+
+/** Escapes a value for use between single quotes that the caller already opened. */
+export const escapePosixSingleQuoted = (value: string): string => value.replace(/'/g, "'\\''");
+
+/** Escapes a value for use between double quotes that the caller already opened. */
+export const escapePosixDoubleQuoted = (value: string): string =>
+  value.replace(/[\\"$`]/g, '\\$&');
+
+/** Quotes a value as one PowerShell string literal that is never interpolated. */
+export const quotePowershell = (value: string): string =>
+  `'${escapePowershellSingleQuoted(value)}'`;
+
+export const escapePowershellSingleQuoted = (value: string): string =>
+  value.replace(POWERSHELL_SINGLE_QUOTES, '$&$&');
+
+export const escapePowershellDoubleQuoted = (value: string): string =>
+  value.replace(/[`$]/g, '`$&').replace(POWERSHELL_DOUBLE_QUOTES, '`$&');
+
+// Backslashes are literal unless they precede a `"`, which includes the closing quote.
+const escapeWindowsDoubleQuoted = (value: string): string => {
+  let escaped = '';
+  let backslashes = 0;
+  for (const char of value) {
+    if (char === '\\') {
+      backslashes += 1;
+      continue;
+    }
+    if (char === '"') {
+      escaped += '\\'.repeat(backslashes * 2 + 1) + '"';
+    } else {
+      escaped += '\\'.repeat(backslashes) + char;
+    }
+    backslashes = 0;
+  }
+  return escaped + '\\'.repeat(backslashes * 2);
+};
+
+/**
+ * Quotes a value as one argument in a Windows command line, following the rules that
+ * `CommandLineToArgvW` and the MSVC runtime (and therefore wsl.exe and git) use to split it.
+ */
+export const quoteWindowsArgument = (value: string): string =>
+  value && !/[\s"]/.test(value) ? value : `"${escapeWindowsDoubleQuoted(value)}"`;
+
+// cmd.exe toggles its quote state on every `"`, including the ones escaped for argv parsing,
+// so metacharacters are escaped wherever cmd.exe itself would see them unquoted.
+const escapeCmdMetacharacters = (argument: string, startsInQuotes: boolean): string => {
+  let quoted = '';
+  let inQuotes = startsInQuotes;
+  let backslashes = 0;
+  for (const char of argument) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      quoted += char;
+    } else if (char === '%') {
+      // Backslashes before the inserted quote would escape it, so they are doubled.
+      quoted += inQuotes ? `${'\\'.repeat(backslashes)}"^%"` : '^%';
+    } else if (!inQuotes && CMD_METACHARACTERS.test(char)) {
+      quoted += `^${char}`;
+    } else {
+      quoted += char;
+    }
+    backslashes = char === '\\' ? backslashes + 1 : 0;
+  }
+  return quoted;
+};
+
+/**
+ * Quotes a value as one argument on a cmd.exe command line. The result is a Windows argument
+ * (see {@link quoteWindowsArgument}) in which `%` is moved outside the quotes and escaped with
+ * `^`, because cmd.exe expands variables even inside quoted text. Line breaks cannot be passed
+ * through cmd.exe and become spaces.
+ */
+export const quoteCmd = (value: string): string =>
+  escapeCmdMetacharacters(quoteWindowsArgument(value.replace(/[\r\n]+/g, ' ')), false);
+
+/**
+ * Escapes a value for use between double quotes that the caller already opened on a cmd.exe
+ * command line, following the same rules as {@link quoteCmd} without adding quotes of its own.
+ */
+export const escapeCmdDoubleQuoted = (value: string): string =>
+  escapeCmdMetacharacters(escapeWindowsDoubleQuoted(value.replace(/[\r\n]+/g, ' ')), true);
+
+/**
+ * Wraps a command line as the quoted argument of `cmd.exe /K` or `/C`. The cmd.exe that parses
+ * the surrounding command sees the quotes inside `command` as well, so metacharacters that it
+ * would treat as unquoted are escaped with `^` for it and reach the inner cmd.exe unchanged.
+ */
+export const wrapCmdCommandLine = (command: string): string => {
+  let wrapped = '"';
+  let inQuotes = true;
+  for (const char of command) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (CMD_METACHARACTERS.test(char) || char === '%')) {
+      wrapped += '^';
+    }
+    wrapped += char;
+  }
+  return `${wrapped}"`;
+};
+
+/** Quotes a value as one word for the shell that runs commands in the given dialect. */
+export const quoteForDialect = (value: string, dialect: ShellDialect): string => {
+  switch (dialect) {
+    case 'cmd':
+      return quoteCmd(value);
+    case 'powershell':
+      return quotePowershell(value);
+    case 'posix':
+    case 'wsl':
+      return quotePosix(value);
+  }
+};
@@ -0,0 +1,50 @@
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { getSecretsPath, loadSecrets, normalizeSecretStore, saveSecrets } from './secrets';
+
+let directory = '';
+
+afterEach(() => {
+  if (directory) {
+    rmSync(directory, { recursive: true, force: true });
+    directory = '';
+  }
+});
+
+describe('secret store', () => {
+  it('keeps one file per vault outside the vault', () => {
+    const path = getSecretsPath('/home/user/vault', '/home/user/.config');
+    expect(path).toMatch(
+      /^\/home\/user\/\.config\/obsidian-open-in-terminal\/secrets-[0-9a-f]{16}\.json$/
+    );
+    expect(getSecretsPath('/home/user/vault', '/home/user/.config')).toBe(path);
+    expect(getSecretsPath('/home/user/other', '/home/user/.config')).not.toBe(path);
+  });
+
+  it('saves secrets readable by the owner only and loads them back', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'open-in-terminal-secrets-'));
+    const path = getSecretsPath('/home/user/vault', directory);
+    expect(await loadSecrets(path)).toEqual({ global: {}, targets: {} });
+
+    const store = {
+      global: { API_KEY: 'secret' },
+      targets: { claude: { ANTHROPIC_API_KEY: 'sk' } }
+    };
+    await saveSecrets(path, store);
+    expect(await loadSecrets(path)).toEqual(store);
+    if (process.platform !== 'win32') {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('drops malformed entries', () => {
+    expect(normalizeSecretStore({ global: { OK: 'x', BAD: 1 }, targets: { a: 'nope' } })).toEqual({
+      global: { OK: 'x' },
+      targets: { a: {} }
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+import { readEnv } from './env';
+
+/** Secret environment variables, kept outside the vault so that sync never uploads them. */
+export type SecretStore = {
+  global: Record<string, string>;
+  // Keyed by terminal target id.
+  targets: Record<string, Record<string, string>>;
+};
+
+export const createSecretStore = (): SecretStore => ({ global: {}, targets: {} });
+
+const getConfigDirectory = (): string =>
+  process.platform === 'win32'
+    ? (process.env.APPDATA ?? join(homedir(), 'AppData', 'Roaming'))
+    : (process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config'));
+
+/** One file per vault, named after a hash of the vault path, in the user's config directory. */
+export const getSecretsPath = (vaultPath: string, configDirectory = getConfigDirectory()): string =>
+  join(
+    configDirectory,
+    'obsidian-open-in-terminal',
+    `secrets-${createHash('sha256').update(vaultPath).digest('hex').slice(0, 16)}.json`
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export const normalizeSecretStore = (value: unknown): SecretStore => {
+  const store = createSecretStore();
+  if (!isRecord(value)) {
+    return store;
+  }
+  store.global = readEnv(value.global);
+  if (isRecord(value.targets)) {
+    for (const [id, env] of Object.entries(value.targets)) {
+      store.targets[id] = readEnv(env);
+    }
+  }
+  return store;
+};
+
+/** Reads the store; a missing or unreadable file counts as empty. */
+export const loadSecrets = async (path: string): Promise<SecretStore> => {
+  try {
+    return normalizeSecretStore(JSON.parse(await fs.readFile(path, 'utf8')));
+  } catch {
+    return createSecretStore();
+  }
+};
+
+/** Writes the store readable by the current user only. */
+export const saveSecrets = async (path: string, store: SecretStore): Promise<void> => {
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await fs.writeFile(path, JSON.stringify(store, null, 2), { mode: 0o600 });
+};
@@ -0,0 +1,83 @@
+import { App, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+
+import { multiplexerLabels } from './multiplexer';
+import type { TargetSessionState } from './session-status';
+
+export class SessionListModal extends Modal {
+  private states: TargetSessionState[] = [];
+
+  constructor(
+    app: App,
+    private readonly load: () => Promise<TargetSessionState[]>,
+    private readonly kill: (session: TargetSessionState) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    this.titleEl.setText('Persistent sessions');
+    void this.reload();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async reload() {
+    this.states = await this.load();
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (this.states.length === 0) {
+      contentEl.createEl('p', {
+        text: 'No target keeps a session. Choose tmux or zellij under persistent session in the target settings.'
+      });
+      return;
+    }
+    for (const state of this.states) {
+      const setting = new Setting(contentEl)
+        .setName(state.title)
+        .setDesc(
+          `${multiplexerLabels[state.multiplexer]} session ${state.name}: ${state.running ? 'running' : 'stopped'}`
+        );
+      if (state.running) {
+        setting.addButton((button) =>
+          button
+            .setButtonText('Kill')
+            .setWarning()
+            .onClick(async () => {
+              button.setDisabled(true);
+              await this.kill(state);
+              await this.reload();
+            })
+        );
+      }
+    }
+  }
+}
+
+export class SessionSuggestModal extends FuzzySuggestModal<TargetSessionState> {
+  constructor(
+    app: App,
+    private readonly states: readonly TargetSessionState[],
+    private readonly onChoose: (state: TargetSessionState) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Kill session…');
+  }
+
+  getItems(): TargetSessionState[] {
+    return [...this.states];
+  }
+
+  getItemText(state: TargetSessionState): string {
+    return `${state.title} (${state.name})`;
+  }
+
+  onChooseItem(state: TargetSessionState) {
+    this.onChoose(state);
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  listMultiplexerSessions,
+  type ActiveMultiplexer,
+  type MultiplexerSession
+} from './multiplexer';
+
+/** A session that a launch target with a multiplexer starts or reattaches to. */
+export type TargetSession = MultiplexerSession & {
+  title: string;
+};
+
+export type TargetSessionState = TargetSession & {
+  running: boolean;
+};
+
+/** Asks each multiplexer in use once for its sessions and marks the targets' sessions alive. */
+export const readTargetSessions = async (
+  sessions: readonly TargetSession[],
+  env?: Record<string, string>
+): Promise<TargetSessionState[]> => {
+  const running = new Map<ActiveMultiplexer, Set<string>>();
+  for (const session of sessions) {
+    if (!running.has(session.multiplexer)) {
+      running.set(
+        session.multiplexer,
+        new Set(await listMultiplexerSessions(session.multiplexer, env))
+      );
+    }
+  }
+  return sessions.map((session) => ({
+    ...session,
+    running: running.get(session.multiplexer)?.has(session.name) ?? false
+  }));
+};
+
+export const formatSessionStatus = (states: readonly TargetSessionState[]): string => {
+  const running = states.filter((state) => state.running).length;
+  return `Sessions: ${running}/${states.length}`;
+};
+
+export const formatSessionTooltip = (states: readonly TargetSessionState[]): string =>
+  states
+    .map((state) => `${state.title}: ${state.running ? 'running' : 'stopped'} (${state.name})`)
+    .join('\n');
+
+/**
+ * Status bar item that shows how many of the targets' multiplexer sessions are alive. It hides
+ * itself when no target keeps a session.
+ */
+export class SessionStatus {
+  private refreshing = false;
+
+  constructor(
+    private readonly getSessions: () => TargetSession[],
+    private readonly getEnv: () => Promise<Record<string, string>>,
+    private readonly statusBarEl: HTMLElement,
+    onClick: () => void
+  ) {
+    statusBarEl.addClass('mod-clickable');
+    statusBarEl.addEventListener('click', onClick);
+    statusBarEl.hide();
+  }
+
+  async refresh() {
+    const sessions = this.getSessions();
+    if (sessions.length === 0) {
+      this.statusBarEl.hide();
+      return;
+    }
+    if (this.refreshing) {
+      return;
+    }
+    this.refreshing = true;
+    try {
+      const states = await readTargetSessions(sessions, await this.getEnv());
+      this.statusBarEl.show();
+      this.statusBarEl.setText(formatSessionStatus(states));
+      this.statusBarEl.setAttr('aria-label', formatSessionTooltip(states));
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { runMultiplexer } from './multiplexer';
+import { hasTmuxSession, sendToTmuxSession } from './sessions';
+
+// The terminal view needs a DOM and the workspace; these tests only talk to tmux.
+vi.mock('./terminal-view', () => ({
+  TERMINAL_VIEW_TYPE: 'open-in-terminal-view',
+  TerminalView: class {}
+}));
+
+const hasTmux = (() => {
+  try {
+    execFileSync('tmux', ['-V'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe.runIf(hasTmux)('sendToTmuxSession', () => {
+  let directory = '';
+
+  beforeAll(() => {
+    // A private socket directory keeps the test away from any tmux server the user runs.
+    directory = mkdtempSync(join(tmpdir(), 'open-in-terminal-sessions-'));
+    process.env.TMUX_TMPDIR = directory;
+    delete process.env.TMUX;
+  });
+
+  afterAll(async () => {
+    await runMultiplexer('tmux', ['kill-server']);
+    rmSync(directory, { recursive: true, force: true });
+    delete process.env.TMUX_TMPDIR;
+  });
+
+  it('pastes the text into the session and submits it', async () => {
+    const output = join(directory, 'received.txt');
+    expect(await hasTmuxSession('agent')).toBe(false);
+    const started = await runMultiplexer('tmux', [
+      'new-session',
+      '-d',
+      '-s',
+      'agent',
+      `cat > '${output}'`
+    ]);
+    expect(started.code).toBe(0);
+    expect(await hasTmuxSession('agent')).toBe(true);
+    // Session names are matched exactly, not as prefixes.
+    expect(await hasTmuxSession('age')).toBe(false);
+
+    const sent = await sendToTmuxSession('agent', 'Summarize "this" note');
+    expect(sent.code).toBe(0);
+
+    await vi.waitFor(
+      () => {
+        expect(existsSync(output) && readFileSync(output, 'utf8')).toBe('Summarize "this" note\n');
+      },
+      { timeout: 5000 }
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import type { Workspace } from 'obsidian';
+
+import { runMultiplexer } from './multiplexer';
+import type { ProcessResult } from './process';
+import { TERMINAL_VIEW_TYPE, TerminalView } from './terminal-view';
+
+const TMUX_BUFFER = 'open-in-terminal';
+
+type TmuxEnv = Record<string, string> | undefined;
+
+const runTmux = (args: readonly string[], env: TmuxEnv, input?: string): Promise<ProcessResult> =>
+  runMultiplexer('tmux', args, { env, input });
+
+export const hasTmuxSession = async (name: string, env?: TmuxEnv): Promise<boolean> => {
+  const result = await runTmux(['has-session', '-t', `=${name}`], env);
+  return result.code === 0;
+};
+
+/**
+ * Pastes text into the active pane of a tmux session and presses Enter. tmux wraps the paste in
+ * bracketed-paste markers when the program in the pane asked for them, so multi-line text
+ * arrives as one prompt.
+ */
+export const sendToTmuxSession = async (
+  name: string,
+  text: string,
+  env?: TmuxEnv
+): Promise<ProcessResult> => {
+  const target = `=${name}:`;
+  const loaded = await runTmux(['load-buffer', '-b', TMUX_BUFFER, '-'], env, text);
+  if (loaded.code !== 0) {
+    return loaded;
+  }
+  const pasted = await runTmux(['paste-buffer', '-d', '-p', '-b', TMUX_BUFFER, '-t', target], env);
+  if (pasted.code !== 0) {
+    return pasted;
+  }
+  return runTmux(['send-keys', '-t', target, 'Enter'], env);
+};
+
+/** Returns the embedded terminal tab that runs the named session, if it is still running. */
+export const findEmbeddedSession = (workspace: Workspace, name: string): TerminalView | null => {
+  for (const leaf of workspace.getLeavesOfType(TERMINAL_VIEW_TYPE)) {
+    const view = leaf.view;
+    if (view instanceof TerminalView && view.getSessionName() === name && view.isRunning()) {
+      return view;
+    }
+  }
+  return null;
+};
@@ -1,16 +1,49 @@
 import { App, Platform, Plugin, PluginSettingTab, Setting } from 'obsidian';
 
+import { autoSyncModeLabels, isAutoSyncMode } from './auto-sync';
+import { captureDestinationLabels, isCaptureDestination } from './capture';
+import { formatExecutableCheck, type ExecutableCheck } from './diagnostics';
+import { formatEnvLines, parseEnvLines } from './env';
+import type { MacOpenMode } from './launcher';
+import { logger } from './logger';
+import { MenuTargetsModal } from './menu-targets-modal';
+import { isMultiplexer, multiplexerLabels } from './multiplexer';
+import type { NoteTrust } from './note-commands';
+import type { SecretStore } from './secrets';
 import {
+  createTerminalTargetFromPreset,
   defaultTerminalApp,
   getCurrentTerminalApp,
   OpenInTerminalSettings,
-  setCurrentTerminalApp
+  setCurrentTerminalApp,
+  type TerminalTargetSetting
 } from './settings';
-import { optionalLaunchTargets } from './targets';
+import {
+  createTerminalTargetId,
+  getLaunchTargets,
+  getTerminalTargetLabel,
+  gitLaunchTargets,
+  isTargetEnabled,
+  terminalTargetPresets
+} from './targets';
+import type { LaunchMode } from './terminal-view';
+import {
+  DEFAULT_WORKING_DIRECTORY,
+  isWorkingDirectoryStrategy,
+  workingDirectoryStrategyLabels,
+  type WorkingDirectorySetting
+} from './working-directory';
 
 type SettingsHost = Plugin & {
   settings: OpenInTerminalSettings;
+  secrets: SecretStore;
   saveSettings: () => Promise<void>;
+  saveSecrets: () => Promise<void>;
+  refreshLoginShellPath: () => void;
+  noteTrust: NoteTrust;
+  profileTrust: NoteTrust;
+  runDiagnostics: () => Promise<ExecutableCheck[]>;
+  previewTerminalTarget: (targetId: string) => void;
 };
 
 export class OpenInTerminalSettingTab extends PluginSettingTab {
@@ -45,6 +78,48 @@ export class OpenInTerminalSettingTab extends PluginSettingTab {
           })
       );
 
+    this.addWorkingDirectorySetting(
+      containerEl,
+      'Working directory',
+      'Where the open in terminal command starts.',
+      this.plugin.settings.defaultWorkingDirectory
+    );
+
+    this.addLaunchModeSetting(
+      containerEl,
+      'Whether the open in terminal command opens the terminal app or an embedded tab in the workspace.',
+      () => this.plugin.settings.defaultLaunchMode,
+      (value) => {
+        this.plugin.settings.defaultLaunchMode = value;
+      }
+    );
+
+    new Setting(containerEl)
+      .setName('Embedded tab position')
+      .setDesc('Where embedded tabs open.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('split', 'Split pane')
+          .addOption('sidebar', 'Right sidebar')
+          .setValue(this.plugin.settings.embeddedTerminalLocation)
+          .onChange(async (value) => {
+            this.plugin.settings.embeddedTerminalLocation =
+              value === 'sidebar' ? 'sidebar' : 'split';
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (Platform.isMacOS) {
+      this.addMacOpenModeSetting(
+        containerEl,
+        'Whether the open in terminal command opens a new window or a new tab.',
+        () => this.plugin.settings.defaultMacOpenMode,
+        (value) => {
+          this.plugin.settings.defaultMacOpenMode = value;
+        }
+      );
+    }
+
     if (Platform.isWin) {
       new Setting(containerEl)
         .setName('Use WSL for commands')
@@ -57,11 +132,49 @@ export class OpenInTerminalSettingTab extends PluginSettingTab {
         );
     }
 
+    if (Platform.isLinux) {
+      new Setting(containerEl)
+        .setName('Custom argument template')
+        .setDesc(
+          'Overrides the built-in arguments for the terminal application. Use {cwd} for the working directory and {command} for the shell command, for example: -e bash -lc {command}'
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('--working-directory {cwd} -e bash -lc {command}')
+            .setValue(this.plugin.settings.linuxTerminalArguments)
+            .onChange(async (value) => {
+              this.plugin.settings.linuxTerminalArguments = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    this.addEnvironmentSettings(containerEl);
+
     new Setting(containerEl).setName('Git commands').setHeading();
 
+    new Setting(containerEl)
+      .setName('Run Git commands')
+      .setDesc(
+        'Open a new window for each Git command, or run it in the background and report the result as a notice. Background output is kept in the Git output log.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('terminal', 'New window')
+          .addOption('background', 'Background')
+          .setValue(this.plugin.settings.gitExecutionMode)
+          .onChange(async (value) => {
+            this.plugin.settings.gitExecutionMode =
+              value === 'background' ? 'background' : 'terminal';
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Default commit message')
-      .setDesc('Used when running the commit and push command.')
+      .setDesc(
+        'Pre-fills the commit prompt and is used as is by quick commit. Supports {{date}}, {{date:YYYY-MM-DD HH:mm}}, {{count}} and {{files}}.'
+      )
       .addText((text) =>
         text
           .setPlaceholder('Update')
@@ -72,57 +185,700 @@ export class OpenInTerminalSettingTab extends PluginSettingTab {
           })
       );
 
+    gitLaunchTargets.forEach((target) => {
+      const settingKey = target.settingKey;
+      new Setting(containerEl)
+        .setName(`Enable ${target.settingLabel}`)
+        .setDesc(target.settingDescription)
+        .addToggle((toggle) =>
+          toggle.setValue(this.plugin.settings[settingKey]).onChange(async (value) => {
+            this.plugin.settings[settingKey] = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    });
+
+    new Setting(containerEl).setName('Auto-sync').setHeading();
+
+    new Setting(containerEl).setName('Pull on startup').addToggle((toggle) =>
+      toggle.setValue(this.plugin.settings.autoSyncPullOnStartup).onChange(async (value) => {
+        this.plugin.settings.autoSyncPullOnStartup = value;
+        await this.plugin.saveSettings();
+      })
+    );
+
+    new Setting(containerEl)
+      .setName('Commit and push')
+      .setDesc(
+        'Commits all changes with the default commit message and pushes them in the background. Failed attempts are retried with a growing delay.'
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(autoSyncModeLabels).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(this.plugin.settings.autoSyncMode).onChange(async (value) => {
+          if (isAutoSyncMode(value)) {
+            this.plugin.settings.autoSyncMode = value;
+            await this.plugin.saveSettings();
+          }
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Minutes')
+      .setDesc('How long the commit and push setting waits.')
+      .addText((text) =>
+        text
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.autoSyncMinutes))
+          .onChange(async (value) => {
+            const minutes = Number(value);
+            if (Number.isFinite(minutes) && minutes > 0) {
+              this.plugin.settings.autoSyncMinutes = minutes;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
     new Setting(containerEl)
-      .setName('Enable Git: commit and push')
-      .setDesc('Add a command to commit all changes and push to remote.')
+      .setName('Push on close')
+      .setDesc(
+        'Starts a last commit and push when the plugin unloads. It may not finish if the app exits first.'
+      )
       .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.enableGitCommitPush).onChange(async (value) => {
-          this.plugin.settings.enableGitCommitPush = value;
+        toggle.setValue(this.plugin.settings.autoSyncPushOnUnload).onChange(async (value) => {
+          this.plugin.settings.autoSyncPushOnUnload = value;
           await this.plugin.saveSettings();
         })
       );
 
     new Setting(containerEl)
-      .setName('Enable Git: pull')
-      .setDesc('Add a command to pull changes from remote.')
+      .setName('Pause auto-sync')
+      .setDesc('Stops automatic pulls and pushes without changing the settings above.')
       .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.enableGitPull).onChange(async (value) => {
-          this.plugin.settings.enableGitPull = value;
+        toggle.setValue(this.plugin.settings.autoSyncPaused).onChange(async (value) => {
+          this.plugin.settings.autoSyncPaused = value;
           await this.plugin.saveSettings();
         })
       );
 
-    new Setting(containerEl).setName('Command toggles').setHeading();
+    new Setting(containerEl).setName('Launch targets').setHeading();
+
+    this.plugin.settings.terminalTargets.forEach((target, index) => {
+      this.addTerminalTargetSetting(containerEl, target, index);
+    });
+
+    this.addNewTerminalTargetSetting(containerEl);
+
+    const trustedNotes = new Setting(containerEl)
+      .setName('Trusted notes')
+      .setDesc(this.describeTrustedNotes())
+      .addButton((button) =>
+        button.setButtonText('Forget all').onClick(() => {
+          this.plugin.noteTrust.clear();
+          trustedNotes.setDesc(this.describeTrustedNotes());
+        })
+      );
+
+    const trustedProfiles = new Setting(containerEl)
+      .setName('Trusted folder profiles')
+      .setDesc(this.describeTrustedProfiles())
+      .addButton((button) =>
+        button.setButtonText('Forget all').onClick(() => {
+          this.plugin.profileTrust.clear();
+          trustedProfiles.setDesc(this.describeTrustedProfiles());
+        })
+      );
+
+    this.addLauncherSettings(containerEl);
+
+    this.addCaptureSettings(containerEl);
+
+    this.addDiagnosticsSettings(containerEl);
+  }
+
+  private addLauncherSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName('Ribbon and status bar').setHeading();
 
-    for (const target of optionalLaunchTargets) {
-      if (target.action !== 'terminal') {
+    new Setting(containerEl)
+      .setName('Ribbon icon')
+      .setDesc('Shows a ribbon icon that opens a menu of launch targets.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showRibbonIcon).onChange(async (value) => {
+          this.plugin.settings.showRibbonIcon = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Status bar launcher')
+      .setDesc('Shows a status bar item that opens the same menu.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.showStatusBarLauncher).onChange(async (value) => {
+          this.plugin.settings.showStatusBarLauncher = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Menu targets')
+      .setDesc('Choose which enabled targets the menus list. New targets are listed.')
+      .addButton((button) =>
+        button.setButtonText('Choose').onClick(() => {
+          const targets = getLaunchTargets(this.plugin.settings).filter((target) =>
+            isTargetEnabled(this.plugin.settings, target)
+          );
+          new MenuTargetsModal(
+            this.app,
+            targets,
+            this.plugin.settings.hiddenMenuTargetIds,
+            async (hiddenTargetIds) => {
+              this.plugin.settings.hiddenMenuTargetIds = hiddenTargetIds;
+              await this.plugin.saveSettings();
+            }
+          ).open();
+        })
+      );
+  }
+
+  private addCaptureSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName('Output capture').setHeading();
+
+    new Setting(containerEl)
+      .setName('Write output')
+      .setDesc(
+        'Where captured output goes: into the note below the cursor, or into a note next to it that the note links to.'
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(captureDestinationLabels).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(this.plugin.settings.captureDestination).onChange(async (value) => {
+          if (isCaptureDestination(value)) {
+            this.plugin.settings.captureDestination = value;
+            await this.plugin.saveSettings();
+          }
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Time limit in seconds')
+      .setDesc('Stops a captured command that runs longer and keeps the output so far.')
+      .addText((text) =>
+        text
+          .setPlaceholder('60')
+          .setValue(String(this.plugin.settings.captureTimeoutSeconds))
+          .onChange(async (value) => {
+            const seconds = Number(value);
+            if (Number.isFinite(seconds) && seconds > 0) {
+              this.plugin.settings.captureTimeoutSeconds = seconds;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Output limit in kilobytes')
+      .setDesc('Stops a captured command that prints more and keeps the output up to the limit.')
+      .addText((text) =>
+        text
+          .setPlaceholder('256')
+          .setValue(String(this.plugin.settings.captureMaxOutputKb))
+          .onChange(async (value) => {
+            const size = Number(value);
+            if (Number.isFinite(size) && size > 0) {
+              this.plugin.settings.captureMaxOutputKb = size;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+  }
+
+  private describeTrustedNotes(): string {
+    const count = this.plugin.noteTrust.getCount();
+    return `Notes whose commands run without asking first: ${count}. A note asks again when its commands change.`;
+  }
+
+  private describeTrustedProfiles(): string {
+    const count = this.plugin.profileTrust.getCount();
+    return `Folder profiles that apply without asking first: ${count}. A profile asks again when its file changes.`;
+  }
+
+  private addDiagnosticsSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName('Diagnostics').setHeading();
+
+    new Setting(containerEl)
+      .setName('Check tools')
+      .setDesc(
+        'Finds the app that launches open in and the program of each enabled target, using the environment that launches get.'
+      )
+      .addButton((button) =>
+        button.setButtonText('Run checks').onClick(async () => {
+          button.setDisabled(true);
+          resultsEl.empty();
+          try {
+            for (const check of await this.plugin.runDiagnostics()) {
+              new Setting(resultsEl).setName(check.label).setDesc(formatExecutableCheck(check));
+            }
+          } finally {
+            button.setDisabled(false);
+          }
+        })
+      );
+    const resultsEl = containerEl.createDiv();
+
+    for (const target of this.plugin.settings.terminalTargets) {
+      if (!target.enabled || !target.command.trim()) {
         continue;
       }
-      this.addToggleSetting(
-        containerEl,
-        target.settingLabel,
-        () => this.plugin.settings[target.settingKey],
-        async (value) => {
-          this.plugin.settings[target.settingKey] = value;
+      const label = getTerminalTargetLabel(target);
+      new Setting(containerEl)
+        .setName(`Test launch: ${label}`)
+        .setDesc('Shows the command that the launch would run, without running it.')
+        .addButton((button) =>
+          button.setButtonText('Show command').onClick(() => {
+            this.plugin.previewTerminalTarget(target.id);
+          })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('Debug logging')
+      .setDesc(
+        'Logs each launch command, including environment variable values, to the developer console.'
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.debugLogging).onChange(async (value) => {
+          this.plugin.settings.debugLogging = value;
+          logger.setEnabled(value);
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Dry run')
+      .setDesc(
+        'Launches show a notice instead of opening anything, and log their command when debug logging is on. Background Git commands still run.'
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.dryRun).onChange(async (value) => {
+          this.plugin.settings.dryRun = value;
           await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private addTerminalTargetSetting(
+    containerEl: HTMLElement,
+    target: TerminalTargetSetting,
+    index: number
+  ) {
+    const targets = this.plugin.settings.terminalTargets;
+    const setting = new Setting(containerEl)
+      .setName(getTerminalTargetLabel(target) || 'Untitled target')
+      .setDesc(
+        'Gets its own palette command that runs the command from the working directory chosen below.'
+      );
+
+    setting
+      .addText((text) =>
+        text
+          .setPlaceholder('Name')
+          .setValue(target.name)
+          .onChange(async (value) => {
+            target.name = value;
+            setting.setName(getTerminalTargetLabel(target) || 'Untitled target');
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('Command')
+          .setValue(target.command)
+          .onChange(async (value) => {
+            target.command = value;
+            setting.setName(getTerminalTargetLabel(target) || 'Untitled target');
+            await this.plugin.saveSettings();
+          })
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip('Enabled')
+          .setValue(target.enabled)
+          .onChange(async (value) => {
+            target.enabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-up')
+          .setTooltip('Move up')
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            await this.moveTerminalTarget(index, index - 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-down')
+          .setTooltip('Move down')
+          .setDisabled(index === targets.length - 1)
+          .onClick(async () => {
+            await this.moveTerminalTarget(index, index + 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('Delete')
+          .onClick(async () => {
+            targets.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    this.addWorkingDirectorySetting(
+      containerEl,
+      'Working directory',
+      `Where ${getTerminalTargetLabel(target) || 'this target'} starts.`,
+      target.workingDirectory
+    );
+
+    this.addLaunchModeSetting(
+      containerEl,
+      `Whether ${getTerminalTargetLabel(target) || 'this target'} opens the terminal app or an embedded tab in the workspace.`,
+      () => target.launchMode,
+      (value) => {
+        target.launchMode = value;
+      }
+    );
+
+    new Setting(containerEl)
+      .setName('Persistent session')
+      .setDesc(
+        `Runs ${getTerminalTargetLabel(target) || 'this target'} inside a tmux or zellij session, so launching it again reattaches to the running session instead of starting over. On Windows this needs WSL.`
+      )
+      .addDropdown((dropdown) => {
+        Object.entries(multiplexerLabels).forEach(([value, label]) => {
+          dropdown.addOption(value, label);
+        });
+        dropdown.setValue(target.multiplexer).onChange(async (value) => {
+          if (isMultiplexer(value)) {
+            target.multiplexer = value;
+            await this.plugin.saveSettings();
+          }
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Session name')
+      .setDesc(
+        'Names the persistent session (default: the vault and target names) and lets the send to agent commands reach a running session of this target: an embedded tab started with this name, or a tmux session of this name. Without a running session, they launch the target with the text as the initial prompt.'
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('Optional')
+          .setValue(target.sessionName)
+          .onChange(async (value) => {
+            target.sessionName = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (Platform.isMacOS) {
+      this.addMacOpenModeSetting(
+        containerEl,
+        `Whether ${getTerminalTargetLabel(target) || 'this target'} opens a new window or a new tab.`,
+        () => target.macOpenMode,
+        (value) => {
+          target.macOpenMode = value;
         }
       );
     }
+
+    this.addTargetLaunchOverrides(containerEl, target);
+  }
+
+  private addEnvironmentSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName('Environment').setHeading();
+
+    new Setting(containerEl)
+      .setName('Environment variables')
+      .setDesc(
+        'One name=value pair per line, set for every launch. Target variables with the same name take precedence.'
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Name=value')
+          .setValue(formatEnvLines(this.plugin.settings.globalEnv))
+          .onChange(async (value) => {
+            this.plugin.settings.globalEnv = parseEnvLines(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addSecretEnvSetting(
+      containerEl,
+      'Set for every launch.',
+      () => this.plugin.secrets.global,
+      (env) => {
+        this.plugin.secrets.global = env;
+      }
+    );
+
+    if (!Platform.isWin) {
+      new Setting(containerEl)
+        .setName('Load path from login shell')
+        .setDesc(
+          'Starts your login shell once to read its search path and uses it for launches. Fixes command not found errors for tools that shell profiles add to the path, such as package and version managers.'
+        )
+        .addToggle((toggle) =>
+          toggle.setValue(this.plugin.settings.loadLoginShellPath).onChange(async (value) => {
+            this.plugin.settings.loadLoginShellPath = value;
+            await this.plugin.saveSettings();
+            this.plugin.refreshLoginShellPath();
+          })
+        );
+    }
   }
 
-  private addToggleSetting(
+  private addSecretEnvSetting(
     containerEl: HTMLElement,
-    label: string,
-    getValue: () => boolean,
-    setValue: (value: boolean) => Promise<void>
+    description: string,
+    getValue: () => Record<string, string>,
+    setValue: (env: Record<string, string>) => void
   ) {
     new Setting(containerEl)
-      .setName(`Enable ${label}`)
-      .setDesc(`Add an 'Open in ${label}' command to the command palette.`)
-      .addToggle((toggle) =>
-        toggle.setValue(getValue()).onChange(async (value) => {
-          await setValue(value);
-        })
+      .setName('Secret environment variables')
+      .setDesc(
+        `${description} Stored in a file in your user config folder instead of the plugin settings, so vault sync never copies them.`
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Name=value')
+          .setValue(formatEnvLines(getValue()))
+          .onChange(async (value) => {
+            setValue(parseEnvLines(value));
+            await this.plugin.saveSecrets();
+          })
       );
   }
+
+  private addTargetLaunchOverrides(containerEl: HTMLElement, target: TerminalTargetSetting) {
+    const label = getTerminalTargetLabel(target) || 'this target';
+
+    new Setting(containerEl)
+      .setName('Terminal application')
+      .setDesc(`The app that opens ${label}. Leave empty to use the terminal application above.`)
+      .addText((text) =>
+        text
+          .setPlaceholder(getCurrentTerminalApp(this.plugin.settings.terminalApp))
+          .setValue(getCurrentTerminalApp(target.terminalApp))
+          .onChange(async (value) => {
+            target.terminalApp = setCurrentTerminalApp(target.terminalApp, value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (Platform.isWin) {
+      new Setting(containerEl)
+        .setName('Use WSL')
+        .setDesc(`Whether ${label} runs inside WSL.`)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('default', 'Same as above')
+            .addOption('on', 'Always')
+            .addOption('off', 'Never')
+            .setValue(target.wslMode)
+            .onChange(async (value) => {
+              target.wslMode = value === 'on' || value === 'off' ? value : 'default';
+              await this.plugin.saveSettings();
+            })
+        );
+    } else {
+      new Setting(containerEl)
+        .setName('Shell')
+        .setDesc(`The shell that runs the command of ${label}, started with -lc.`)
+        .addText((text) =>
+          text
+            .setPlaceholder('/bin/bash')
+            .setValue(target.shell)
+            .onChange(async (value) => {
+              target.shell = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('Environment variables')
+      .setDesc(`One NAME=value per line, set for ${label} only. Lines starting with # are ignored.`)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Name=value')
+          .setValue(formatEnvLines(target.env))
+          .onChange(async (value) => {
+            target.env = parseEnvLines(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addSecretEnvSetting(
+      containerEl,
+      `Set for ${label} only.`,
+      () => this.plugin.secrets.targets[target.id] ?? {},
+      (env) => {
+        this.plugin.secrets.targets[target.id] = env;
+      }
+    );
+  }
+
+  private addLaunchModeSetting(
+    containerEl: HTMLElement,
+    description: string,
+    getValue: () => LaunchMode,
+    setValue: (value: LaunchMode) => void
+  ) {
+    new Setting(containerEl)
+      .setName('Launch')
+      .setDesc(
+        `${description} Embedded tabs need the script utility on macOS and Linux; on Windows they run cmd.exe without full-screen program support.`
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('external', 'Terminal app')
+          .addOption('embedded', 'Embedded tab')
+          .setValue(getValue())
+          .onChange(async (value) => {
+            setValue(value === 'embedded' ? 'embedded' : 'external');
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private addMacOpenModeSetting(
+    containerEl: HTMLElement,
+    description: string,
+    getValue: () => MacOpenMode,
+    setValue: (value: MacOpenMode) => void
+  ) {
+    new Setting(containerEl)
+      .setName('Open in')
+      .setDesc(
+        `${description} New tabs reuse the frontmost iTerm2, Terminal, or Warp window; Terminal needs accessibility access for this.`
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('window', 'New window')
+          .addOption('tab', 'New tab')
+          .setValue(getValue())
+          .onChange(async (value) => {
+            setValue(value === 'tab' ? 'tab' : 'window');
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private addWorkingDirectorySetting(
+    containerEl: HTMLElement,
+    name: string,
+    description: string,
+    workingDirectory: WorkingDirectorySetting
+  ) {
+    const setting = new Setting(containerEl)
+      .setName(name)
+      .setDesc(description)
+      .addDropdown((dropdown) => {
+        for (const [strategy, label] of Object.entries(workingDirectoryStrategyLabels)) {
+          dropdown.addOption(strategy, label);
+        }
+        dropdown.setValue(workingDirectory.strategy).onChange(async (value) => {
+          if (!isWorkingDirectoryStrategy(value)) {
+            return;
+          }
+          workingDirectory.strategy = value;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (workingDirectory.strategy === 'subfolder') {
+      setting.addText((text) =>
+        text
+          .setPlaceholder('Folder/inside/vault')
+          .setValue(workingDirectory.subfolder)
+          .onChange(async (value) => {
+            workingDirectory.subfolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+    }
+  }
+
+  private addNewTerminalTargetSetting(containerEl: HTMLElement) {
+    let selectedPresetId = '';
+
+    new Setting(containerEl)
+      .setName('Add target')
+      .setDesc('Start from a preset or from an empty target.')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Empty target');
+        for (const preset of terminalTargetPresets) {
+          dropdown.addOption(preset.id, preset.name);
+        }
+        dropdown.setValue(selectedPresetId).onChange((value) => {
+          selectedPresetId = value;
+        });
+      })
+      .addButton((button) =>
+        button
+          .setButtonText('Add')
+          .setCta()
+          .onClick(async () => {
+            this.plugin.settings.terminalTargets.push(this.createTerminalTarget(selectedPresetId));
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  private createTerminalTarget(presetId: string): TerminalTargetSetting {
+    const preset = terminalTargetPresets.find((item) => item.id === presetId);
+    const idTaken = this.plugin.settings.terminalTargets.some((item) => item.id === presetId);
+    if (!preset) {
+      return {
+        id: createTerminalTargetId(),
+        name: '',
+        command: '',
+        enabled: true,
+        workingDirectory: { ...DEFAULT_WORKING_DIRECTORY },
+        macOpenMode: 'window',
+        launchMode: 'external',
+        sessionName: '',
+        multiplexer: 'none',
+        terminalApp: {},
+        wslMode: 'default',
+        shell: '',
+        env: {}
+      };
+    }
+    const target = createTerminalTargetFromPreset(preset, true);
+    if (idTaken) {
+      target.id = createTerminalTargetId();
+    }
+    return target;
+  }
+
+  private async moveTerminalTarget(from: number, to: number) {
+    const targets = this.plugin.settings.terminalTargets;
+    if (to < 0 || to >= targets.length) {
+      return;
+    }
+    const [target] = targets.splice(from, 1);
+    targets.splice(to, 0, target);
+    await this.plugin.saveSettings();
+    this.display();
+  }
 }
@@ -1,24 +1,95 @@
 import { Platform } from 'obsidian';
 
+import { isAutoSyncMode, type AutoSyncMode } from './auto-sync';
+import { isCaptureDestination, type CaptureDestination } from './capture';
+import { readEnv } from './env';
+import type { GitExecutionMode } from './git';
+import type { MacOpenMode } from './launcher';
+import { isMultiplexer, type Multiplexer } from './multiplexer';
+import {
+  createTerminalTargetId,
+  DEFAULT_TARGET_ID,
+  gitLaunchTargets,
+  terminalTargetPresets,
+  type TerminalTargetPreset
+} from './targets';
+import type { EmbeddedTerminalLocation, LaunchMode } from './terminal-view';
+import {
+  DEFAULT_WORKING_DIRECTORY,
+  isWorkingDirectoryStrategy,
+  type WorkingDirectorySetting
+} from './working-directory';
+
 type DesktopPlatform = 'win' | 'macos' | 'linux';
 
-type TerminalAppByPlatform = {
+export type TerminalAppByPlatform = {
   win?: string;
   macos?: string;
   linux?: string;
 };
 
+export type TerminalTargetSetting = {
+  id: string;
+  name: string;
+  command: string;
+  enabled: boolean;
+  workingDirectory: WorkingDirectorySetting;
+  macOpenMode: MacOpenMode;
+  launchMode: LaunchMode;
+  sessionName: string;
+  multiplexer: Multiplexer;
+  // Empty values fall back to the global settings.
+  terminalApp: TerminalAppByPlatform;
+  wslMode: WslMode;
+  shell: string;
+  env: Record<string, string>;
+};
+
+/** Whether a target follows the global WSL setting or overrides it. */
+export type WslMode = 'default' | 'on' | 'off';
+
 export interface OpenInTerminalSettings {
   terminalApp: TerminalAppByPlatform;
-  enableClaude: boolean;
-  enableCodex: boolean;
-  enableCursor: boolean;
-  enableGemini: boolean;
-  enableOpencode: boolean;
+  terminalTargets: TerminalTargetSetting[];
+  defaultWorkingDirectory: WorkingDirectorySetting;
+  defaultMacOpenMode: MacOpenMode;
+  defaultLaunchMode: LaunchMode;
+  embeddedTerminalLocation: EmbeddedTerminalLocation;
   enableWslOnWindows: boolean;
+  linuxTerminalArguments: string;
+  // Set for every launch; secret variables live in the local secret store instead.
+  globalEnv: Record<string, string>;
+  loadLoginShellPath: boolean;
+  debugLogging: boolean;
+  // Logs launches instead of spawning them.
+  dryRun: boolean;
+  captureDestination: CaptureDestination;
+  captureTimeoutSeconds: number;
+  captureMaxOutputKb: number;
+  showRibbonIcon: boolean;
+  showStatusBarLauncher: boolean;
+  // Targets left out of the ribbon and status bar menus; new targets are listed.
+  hiddenMenuTargetIds: string[];
+  gitExecutionMode: GitExecutionMode;
   enableGitCommitPush: boolean;
+  enableGitQuickCommitPush: boolean;
   enableGitPull: boolean;
+  enableGitCommit: boolean;
+  enableGitPush: boolean;
+  enableGitFetch: boolean;
+  enableGitStatus: boolean;
+  enableGitLog: boolean;
+  enableGitStash: boolean;
+  enableGitStashPop: boolean;
+  enableGitSwitchBranch: boolean;
+  enableGitDiffFile: boolean;
+  enableGitResolveConflicts: boolean;
   defaultCommitMessage: string;
+  autoSyncPullOnStartup: boolean;
+  autoSyncMode: AutoSyncMode;
+  autoSyncMinutes: number;
+  autoSyncPushOnUnload: boolean;
+  autoSyncPaused: boolean;
 }
 
 export const defaultTerminalApp = (): string => {
@@ -62,17 +133,64 @@ const buildDefaultTerminalAppSetting = (): TerminalAppByPlatform => {
   return { [platform]: app };
 };
 
+export const createTerminalTargetFromPreset = (
+  preset: TerminalTargetPreset,
+  enabled = false
+): TerminalTargetSetting => ({
+  id: preset.id,
+  name: preset.name,
+  command: preset.command,
+  enabled,
+  workingDirectory: { ...DEFAULT_WORKING_DIRECTORY },
+  macOpenMode: 'window',
+  launchMode: 'external',
+  sessionName: '',
+  multiplexer: 'none',
+  terminalApp: {},
+  wslMode: 'default',
+  shell: '',
+  env: {}
+});
+
 export const DEFAULT_SETTINGS: OpenInTerminalSettings = {
   terminalApp: buildDefaultTerminalAppSetting(),
-  enableClaude: false,
-  enableCodex: false,
-  enableCursor: false,
-  enableGemini: false,
-  enableOpencode: false,
+  terminalTargets: terminalTargetPresets.map((preset) => createTerminalTargetFromPreset(preset)),
+  defaultWorkingDirectory: { ...DEFAULT_WORKING_DIRECTORY },
+  defaultMacOpenMode: 'window',
+  defaultLaunchMode: 'external',
+  embeddedTerminalLocation: 'split',
   enableWslOnWindows: false,
+  linuxTerminalArguments: '',
+  globalEnv: {},
+  loadLoginShellPath: false,
+  debugLogging: false,
+  dryRun: false,
+  captureDestination: 'cursor',
+  captureTimeoutSeconds: 60,
+  captureMaxOutputKb: 256,
+  showRibbonIcon: true,
+  showStatusBarLauncher: false,
+  hiddenMenuTargetIds: [],
+  gitExecutionMode: 'terminal',
   enableGitCommitPush: false,
+  enableGitQuickCommitPush: false,
   enableGitPull: false,
-  defaultCommitMessage: 'update'
+  enableGitCommit: false,
+  enableGitPush: false,
+  enableGitFetch: false,
+  enableGitStatus: false,
+  enableGitLog: false,
+  enableGitStash: false,
+  enableGitStashPop: false,
+  enableGitSwitchBranch: false,
+  enableGitDiffFile: false,
+  enableGitResolveConflicts: false,
+  defaultCommitMessage: 'update',
+  autoSyncPullOnStartup: false,
+  autoSyncMode: 'off',
+  autoSyncMinutes: 10,
+  autoSyncPushOnUnload: false,
+  autoSyncPaused: false
 };
 
 type UnknownRecord = Record<string, unknown>;
@@ -112,28 +230,180 @@ const normalizeTerminalAppSetting = (
 const readBoolean = (value: unknown, fallback: boolean): boolean =>
   typeof value === 'boolean' ? value : fallback;
 
+const readString = (value: unknown, fallback: string): string =>
+  typeof value === 'string' ? value : fallback;
+
+const readStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const readPositiveNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+const normalizeWorkingDirectory = (value: unknown): WorkingDirectorySetting => {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_WORKING_DIRECTORY };
+  }
+  return {
+    strategy: isWorkingDirectoryStrategy(value.strategy)
+      ? value.strategy
+      : DEFAULT_WORKING_DIRECTORY.strategy,
+    subfolder: readString(value.subfolder, DEFAULT_WORKING_DIRECTORY.subfolder)
+  };
+};
+
+const readMacOpenMode = (value: unknown, fallback: MacOpenMode): MacOpenMode =>
+  value === 'window' || value === 'tab' ? value : fallback;
+
+const readGitExecutionMode = (value: unknown, fallback: GitExecutionMode): GitExecutionMode =>
+  value === 'terminal' || value === 'background' ? value : fallback;
+
+const readLaunchMode = (value: unknown, fallback: LaunchMode): LaunchMode =>
+  value === 'external' || value === 'embedded' ? value : fallback;
+
+const readWslMode = (value: unknown): WslMode =>
+  value === 'on' || value === 'off' ? value : 'default';
+
+const TARGET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const reservedTargetIds = new Set<string>([
+  DEFAULT_TARGET_ID,
+  ...gitLaunchTargets.map((target) => target.id)
+]);
+
+const normalizeTerminalTargets = (
+  value: unknown,
+  source: UnknownRecord
+): TerminalTargetSetting[] => {
+  if (!Array.isArray(value)) {
+    // Settings saved before targets became editable only stored one toggle per preset.
+    return terminalTargetPresets.map((preset) =>
+      createTerminalTargetFromPreset(preset, readBoolean(source[preset.legacySettingKey], false))
+    );
+  }
+
+  const seenIds = new Set<string>();
+  const targets: TerminalTargetSetting[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    let id = typeof entry.id === 'string' ? entry.id.trim() : '';
+    if (!TARGET_ID_PATTERN.test(id) || reservedTargetIds.has(id) || seenIds.has(id)) {
+      id = createTerminalTargetId();
+    }
+    seenIds.add(id);
+    targets.push({
+      id,
+      name: readString(entry.name, ''),
+      command: readString(entry.command, ''),
+      enabled: readBoolean(entry.enabled, false),
+      workingDirectory: normalizeWorkingDirectory(entry.workingDirectory),
+      macOpenMode: readMacOpenMode(entry.macOpenMode, 'window'),
+      launchMode: readLaunchMode(entry.launchMode, 'external'),
+      sessionName: readString(entry.sessionName, ''),
+      multiplexer: isMultiplexer(entry.multiplexer) ? entry.multiplexer : 'none',
+      terminalApp: normalizeTerminalAppSetting(entry.terminalApp, {}),
+      wslMode: readWslMode(entry.wslMode),
+      shell: readString(entry.shell, '').trim(),
+      env: readEnv(entry.env)
+    });
+  }
+  return targets;
+};
+
 export const normalizeSettings = (stored: unknown): OpenInTerminalSettings => {
   const source = isRecord(stored) ? stored : {};
   return {
     terminalApp: normalizeTerminalAppSetting(source.terminalApp, DEFAULT_SETTINGS.terminalApp),
-    enableClaude: readBoolean(source.enableClaude, DEFAULT_SETTINGS.enableClaude),
-    enableCodex: readBoolean(source.enableCodex, DEFAULT_SETTINGS.enableCodex),
-    enableCursor: readBoolean(source.enableCursor, DEFAULT_SETTINGS.enableCursor),
-    enableGemini: readBoolean(source.enableGemini, DEFAULT_SETTINGS.enableGemini),
-    enableOpencode: readBoolean(source.enableOpencode, DEFAULT_SETTINGS.enableOpencode),
+    terminalTargets: normalizeTerminalTargets(source.terminalTargets, source),
+    defaultWorkingDirectory: normalizeWorkingDirectory(source.defaultWorkingDirectory),
+    defaultMacOpenMode: readMacOpenMode(
+      source.defaultMacOpenMode,
+      DEFAULT_SETTINGS.defaultMacOpenMode
+    ),
+    defaultLaunchMode: readLaunchMode(source.defaultLaunchMode, DEFAULT_SETTINGS.defaultLaunchMode),
+    embeddedTerminalLocation:
+      source.embeddedTerminalLocation === 'sidebar' || source.embeddedTerminalLocation === 'split'
+        ? source.embeddedTerminalLocation
+        : DEFAULT_SETTINGS.embeddedTerminalLocation,
     enableWslOnWindows: readBoolean(
       source.enableWslOnWindows,
       DEFAULT_SETTINGS.enableWslOnWindows
     ),
+    linuxTerminalArguments: readString(
+      source.linuxTerminalArguments,
+      DEFAULT_SETTINGS.linuxTerminalArguments
+    ),
+    globalEnv: readEnv(source.globalEnv),
+    loadLoginShellPath: readBoolean(
+      source.loadLoginShellPath,
+      DEFAULT_SETTINGS.loadLoginShellPath
+    ),
+    debugLogging: readBoolean(source.debugLogging, DEFAULT_SETTINGS.debugLogging),
+    dryRun: readBoolean(source.dryRun, DEFAULT_SETTINGS.dryRun),
+    captureDestination: isCaptureDestination(source.captureDestination)
+      ? source.captureDestination
+      : DEFAULT_SETTINGS.captureDestination,
+    captureTimeoutSeconds: readPositiveNumber(
+      source.captureTimeoutSeconds,
+      DEFAULT_SETTINGS.captureTimeoutSeconds
+    ),
+    captureMaxOutputKb: readPositiveNumber(
+      source.captureMaxOutputKb,
+      DEFAULT_SETTINGS.captureMaxOutputKb
+    ),
+    showRibbonIcon: readBoolean(source.showRibbonIcon, DEFAULT_SETTINGS.showRibbonIcon),
+    showStatusBarLauncher: readBoolean(
+      source.showStatusBarLauncher,
+      DEFAULT_SETTINGS.showStatusBarLauncher
+    ),
+    hiddenMenuTargetIds: readStringList(source.hiddenMenuTargetIds),
+    gitExecutionMode: readGitExecutionMode(
+      source.gitExecutionMode,
+      DEFAULT_SETTINGS.gitExecutionMode
+    ),
     enableGitCommitPush: readBoolean(
       source.enableGitCommitPush,
       DEFAULT_SETTINGS.enableGitCommitPush
     ),
+    enableGitQuickCommitPush: readBoolean(
+      source.enableGitQuickCommitPush,
+      DEFAULT_SETTINGS.enableGitQuickCommitPush
+    ),
     enableGitPull: readBoolean(source.enableGitPull, DEFAULT_SETTINGS.enableGitPull),
+    enableGitCommit: readBoolean(source.enableGitCommit, DEFAULT_SETTINGS.enableGitCommit),
+    enableGitPush: readBoolean(source.enableGitPush, DEFAULT_SETTINGS.enableGitPush),
+    enableGitFetch: readBoolean(source.enableGitFetch, DEFAULT_SETTINGS.enableGitFetch),
+    enableGitStatus: readBoolean(source.enableGitStatus, DEFAULT_SETTINGS.enableGitStatus),
+    enableGitLog: readBoolean(source.enableGitLog, DEFAULT_SETTINGS.enableGitLog),
+    enableGitStash: readBoolean(source.enableGitStash, DEFAULT_SETTINGS.enableGitStash),
+    enableGitStashPop: readBoolean(source.enableGitStashPop, DEFAULT_SETTINGS.enableGitStashPop),
+    enableGitSwitchBranch: readBoolean(
+      source.enableGitSwitchBranch,
+      DEFAULT_SETTINGS.enableGitSwitchBranch
+    ),
+    enableGitDiffFile: readBoolean(source.enableGitDiffFile, DEFAULT_SETTINGS.enableGitDiffFile),
+    enableGitResolveConflicts: readBoolean(
+      source.enableGitResolveConflicts,
+      DEFAULT_SETTINGS.enableGitResolveConflicts
+    ),
     defaultCommitMessage:
       typeof source.defaultCommitMessage === 'string'
         ? source.defaultCommitMessage
-        : DEFAULT_SETTINGS.defaultCommitMessage
+        : DEFAULT_SETTINGS.defaultCommitMessage,
+    autoSyncPullOnStartup: readBoolean(
+      source.autoSyncPullOnStartup,
+      DEFAULT_SETTINGS.autoSyncPullOnStartup
+    ),
+    autoSyncMode: isAutoSyncMode(source.autoSyncMode)
+      ? source.autoSyncMode
+      : DEFAULT_SETTINGS.autoSyncMode,
+    autoSyncMinutes: readPositiveNumber(source.autoSyncMinutes, DEFAULT_SETTINGS.autoSyncMinutes),
+    autoSyncPushOnUnload: readBoolean(
+      source.autoSyncPushOnUnload,
+      DEFAULT_SETTINGS.autoSyncPushOnUnload
+    ),
+    autoSyncPaused: readBoolean(source.autoSyncPaused, DEFAULT_SETTINGS.autoSyncPaused)
   };
 };
 
@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+import type { LaunchTarget } from './targets';
+
+export class TargetSuggestModal<T extends LaunchTarget> extends FuzzySuggestModal<T> {
+  constructor(
+    app: App,
+    private readonly targets: readonly T[],
+    placeholder: string,
+    private readonly onChoose: (target: T) => void
+  ) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): T[] {
+    return [...this.targets];
+  }
+
+  getItemText(target: T): string {
+    return target.commandName;
+  }
+
+  onChooseItem(target: T) {
+    this.onChoose(target);
+  }
+}
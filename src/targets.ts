@@ -1,22 +1,68 @@
-import type { OpenInTerminalSettings } from './settings';
+import type { MacOpenMode } from './launcher';
+import { normalizeSessionName, type ActiveMultiplexer } from './multiplexer';
+import type {
+  OpenInTerminalSettings,
+  TerminalAppByPlatform,
+  TerminalTargetSetting
+} from './settings';
+import type { LaunchMode } from './terminal-view';
+import type { WorkingDirectorySetting } from './working-directory';
+
+export type GitAction =
+  | 'commit-push'
+  | 'quick-commit-push'
+  | 'pull'
+  | 'commit'
+  | 'push'
+  | 'fetch'
+  | 'status'
+  | 'log'
+  | 'stash'
+  | 'stash-pop'
+  | 'switch-branch'
+  | 'diff-file'
+  | 'resolve-conflicts';
 
 export type OptionalTargetSettingKey =
+  | 'enableGitCommitPush'
+  | 'enableGitQuickCommitPush'
+  | 'enableGitPull'
+  | 'enableGitCommit'
+  | 'enableGitPush'
+  | 'enableGitFetch'
+  | 'enableGitStatus'
+  | 'enableGitLog'
+  | 'enableGitStash'
+  | 'enableGitStashPop'
+  | 'enableGitSwitchBranch'
+  | 'enableGitDiffFile'
+  | 'enableGitResolveConflicts';
+
+export type LegacyTerminalTargetKey =
   | 'enableClaude'
   | 'enableCodex'
   | 'enableCursor'
   | 'enableGemini'
-  | 'enableOpencode'
-  | 'enableGitCommitPush'
-  | 'enableGitPull';
+  | 'enableOpencode';
 
 type TerminalTarget = {
   action: 'terminal';
   toolCommand?: string;
+  workingDirectory?: WorkingDirectorySetting;
+  macOpenMode?: MacOpenMode;
+  launchMode?: LaunchMode;
+  sessionName?: string;
+  multiplexer?: ActiveMultiplexer;
+  // Overrides of the global launch settings.
+  terminalApp?: TerminalAppByPlatform;
+  useWsl?: boolean;
+  shell?: string;
+  env?: Record<string, string>;
 };
 
 type GitTarget = {
   action: 'git';
-  gitAction: 'commit-push' | 'pull';
+  gitAction: GitAction;
 };
 
 export type LaunchTarget = {
@@ -24,61 +70,59 @@ export type LaunchTarget = {
   commandName: string;
   settingKey?: OptionalTargetSettingKey;
   settingLabel?: string;
+  terminalTargetId?: string;
 } & (TerminalTarget | GitTarget);
 
+export type TerminalLaunchTarget = LaunchTarget & TerminalTarget;
+
 type OptionalLaunchTarget = LaunchTarget & {
   settingKey: OptionalTargetSettingKey;
   settingLabel: string;
+  settingDescription: string;
 };
 
-export const optionalLaunchTargets: readonly OptionalLaunchTarget[] = [
-  {
-    id: 'open-claude',
-    commandName: 'Open in Claude Code',
-    action: 'terminal',
-    toolCommand: 'claude',
-    settingKey: 'enableClaude',
-    settingLabel: 'Claude Code'
-  },
-  {
-    id: 'open-codex',
-    commandName: 'Open in Codex cli',
-    action: 'terminal',
-    toolCommand: 'codex',
-    settingKey: 'enableCodex',
-    settingLabel: 'Codex cli'
-  },
-  {
-    id: 'open-cursor',
-    commandName: 'Open in Cursor cli',
-    action: 'terminal',
-    toolCommand: 'agent',
-    settingKey: 'enableCursor',
-    settingLabel: 'Cursor cli'
-  },
-  {
-    id: 'open-gemini',
-    commandName: 'Open in Gemini cli',
-    action: 'terminal',
-    toolCommand: 'gemini',
-    settingKey: 'enableGemini',
-    settingLabel: 'Gemini cli'
-  },
+export type TerminalTargetPreset = {
+  id: string;
+  name: string;
+  command: string;
+  legacySettingKey: LegacyTerminalTargetKey;
+};
+
+// Preset ids match the command ids used before targets became editable, so
+// existing hotkeys keep working after the settings migration.
+export const terminalTargetPresets: readonly TerminalTargetPreset[] = [
+  { id: 'open-claude', name: 'Claude Code', command: 'claude', legacySettingKey: 'enableClaude' },
+  { id: 'open-codex', name: 'Codex cli', command: 'codex', legacySettingKey: 'enableCodex' },
+  { id: 'open-cursor', name: 'Cursor cli', command: 'agent', legacySettingKey: 'enableCursor' },
+  { id: 'open-gemini', name: 'Gemini cli', command: 'gemini', legacySettingKey: 'enableGemini' },
   {
     id: 'open-opencode',
-    commandName: 'Open in OpenCode',
-    action: 'terminal',
-    toolCommand: 'opencode',
-    settingKey: 'enableOpencode',
-    settingLabel: 'OpenCode'
-  },
+    name: 'OpenCode',
+    command: 'opencode',
+    legacySettingKey: 'enableOpencode'
+  }
+];
+
+export const gitLaunchTargets: readonly OptionalLaunchTarget[] = [
   {
     id: 'git-commit-push',
     commandName: 'Git: commit and push',
     action: 'git',
     gitAction: 'commit-push',
     settingKey: 'enableGitCommitPush',
-    settingLabel: 'Git: commit and push'
+    settingLabel: 'Git: commit and push',
+    settingDescription:
+      'Add a command that lists the changed files, asks for a message, then commits and pushes.'
+  },
+  {
+    id: 'git-quick-commit-push',
+    commandName: 'Git: quick commit and push',
+    action: 'git',
+    gitAction: 'quick-commit-push',
+    settingKey: 'enableGitQuickCommitPush',
+    settingLabel: 'Git: quick commit and push',
+    settingDescription:
+      'Add a command to commit all changes with the default message and push, without a prompt.'
   },
   {
     id: 'git-pull',
@@ -86,23 +130,171 @@ export const optionalLaunchTargets: readonly OptionalLaunchTarget[] = [
     action: 'git',
     gitAction: 'pull',
     settingKey: 'enableGitPull',
-    settingLabel: 'Git: pull'
+    settingLabel: 'Git: pull',
+    settingDescription: 'Add a command to pull changes from remote.'
+  },
+  {
+    id: 'git-commit',
+    commandName: 'Git: commit',
+    action: 'git',
+    gitAction: 'commit',
+    settingKey: 'enableGitCommit',
+    settingLabel: 'Git: commit',
+    settingDescription:
+      'Add a command that lists the changed files, asks for a message, then commits without pushing.'
+  },
+  {
+    id: 'git-push',
+    commandName: 'Git: push',
+    action: 'git',
+    gitAction: 'push',
+    settingKey: 'enableGitPush',
+    settingLabel: 'Git: push',
+    settingDescription: 'Add a command to push existing commits to remote.'
+  },
+  {
+    id: 'git-fetch',
+    commandName: 'Git: fetch',
+    action: 'git',
+    gitAction: 'fetch',
+    settingKey: 'enableGitFetch',
+    settingLabel: 'Git: fetch',
+    settingDescription: 'Add a command to fetch all remotes without changing the working tree.'
+  },
+  {
+    id: 'git-status',
+    commandName: 'Git: status',
+    action: 'git',
+    gitAction: 'status',
+    settingKey: 'enableGitStatus',
+    settingLabel: 'Git: status',
+    settingDescription: 'Add a command to show the working tree status.'
+  },
+  {
+    id: 'git-log',
+    commandName: 'Git: log',
+    action: 'git',
+    gitAction: 'log',
+    settingKey: 'enableGitLog',
+    settingLabel: 'Git: log',
+    settingDescription: 'Add a command to show the 50 most recent commits.'
+  },
+  {
+    id: 'git-stash',
+    commandName: 'Git: stash changes',
+    action: 'git',
+    gitAction: 'stash',
+    settingKey: 'enableGitStash',
+    settingLabel: 'Git: stash changes',
+    settingDescription: 'Add a command to stash all changes, including new files.'
+  },
+  {
+    id: 'git-stash-pop',
+    commandName: 'Git: pop stash',
+    action: 'git',
+    gitAction: 'stash-pop',
+    settingKey: 'enableGitStashPop',
+    settingLabel: 'Git: pop stash',
+    settingDescription: 'Add a command to restore the most recent stash.'
+  },
+  {
+    id: 'git-switch-branch',
+    commandName: 'Git: switch branch',
+    action: 'git',
+    gitAction: 'switch-branch',
+    settingKey: 'enableGitSwitchBranch',
+    settingLabel: 'Git: switch branch',
+    settingDescription: 'Add a command to pick a local or remote branch and switch to it.'
+  },
+  {
+    id: 'git-diff-file',
+    commandName: 'Git: diff current file',
+    action: 'git',
+    gitAction: 'diff-file',
+    settingKey: 'enableGitDiffFile',
+    settingLabel: 'Git: diff current file',
+    settingDescription: 'Add a command to show the uncommitted changes of the active note.'
+  },
+  {
+    id: 'git-resolve-conflicts',
+    commandName: 'Git: resolve merge conflicts',
+    action: 'git',
+    gitAction: 'resolve-conflicts',
+    settingKey: 'enableGitResolveConflicts',
+    settingLabel: 'Git: resolve merge conflicts',
+    settingDescription:
+      'Add a command to list conflicted notes after a pull and keep either side, mark them resolved, or abort. Pulls in the background open it when they stop on conflicts; after a pull in the terminal app, run it yourself.'
   }
 ];
 
-export const launchTargets: readonly LaunchTarget[] = [
-  {
-    id: 'open-terminal',
+export const DEFAULT_TARGET_ID = 'open-terminal';
+
+const ACTIVE_FOLDER_SUFFIX = "at current note's folder";
+
+export const createTerminalTargetId = (): string =>
+  `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getTerminalTargetLabel = (target: TerminalTargetSetting): string =>
+  target.name.trim() || target.command.trim();
+
+const toLaunchTarget = (target: TerminalTargetSetting): LaunchTarget | null => {
+  const label = getTerminalTargetLabel(target);
+  if (!label) {
+    return null;
+  }
+  const toolCommand = target.command.trim();
+  return {
+    id: target.id,
+    commandName: `Open in ${label}`,
+    action: 'terminal',
+    toolCommand: toolCommand || undefined,
+    workingDirectory: target.workingDirectory,
+    macOpenMode: target.macOpenMode,
+    launchMode: target.launchMode,
+    sessionName: normalizeSessionName(target.sessionName) || undefined,
+    multiplexer: target.multiplexer === 'none' ? undefined : target.multiplexer,
+    terminalApp: target.terminalApp,
+    useWsl: target.wslMode === 'default' ? undefined : target.wslMode === 'on',
+    shell: target.shell || undefined,
+    env: target.env,
+    terminalTargetId: target.id
+  };
+};
+
+/** The target's name without the `Open in` prefix of its command. */
+export const getTerminalTargetTitle = (target: TerminalLaunchTarget): string =>
+  target.terminalTargetId ? target.commandName.replace(/^Open in /, '') : 'Terminal';
+
+export const getActiveFolderCommand = (
+  target: TerminalLaunchTarget
+): { id: string; name: string } => ({
+  id: `${target.id}-active-folder`,
+  name: `${target.commandName} ${ACTIVE_FOLDER_SUFFIX}`
+});
+
+export const getLaunchTargets = (settings: OpenInTerminalSettings): LaunchTarget[] => {
+  const terminalTargets = settings.terminalTargets
+    .map(toLaunchTarget)
+    .filter((target): target is LaunchTarget => target !== null);
+  const defaultTarget: LaunchTarget = {
+    id: DEFAULT_TARGET_ID,
     commandName: 'Open in terminal',
-    action: 'terminal'
-  },
-  ...optionalLaunchTargets
-];
+    action: 'terminal',
+    workingDirectory: settings.defaultWorkingDirectory,
+    macOpenMode: settings.defaultMacOpenMode,
+    launchMode: settings.defaultLaunchMode
+  };
+  return [defaultTarget, ...terminalTargets, ...gitLaunchTargets];
+};
 
 export const isTargetEnabled = (
   settings: OpenInTerminalSettings,
   target: LaunchTarget
 ): boolean => {
+  if (target.terminalTargetId) {
+    const entry = settings.terminalTargets.find((item) => item.id === target.terminalTargetId);
+    return entry?.enabled ?? false;
+  }
   if (!target.settingKey) {
     return true;
   }
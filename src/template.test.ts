@@ -0,0 +1,129 @@
+import { execFileSync } from 'child_process';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { ShellDialect } from './quoting';
+import { expandTemplate, type TemplateContext } from './template';
+
+const selection = 'it\'s "a" $HOME `id` 100% done\nnext';
+
+const context: TemplateContext = {
+  vault: 'C:\\My Vault',
+  file: 'C:\\My Vault\\a b.md',
+  filePath: 'a b.md',
+  folder: 'C:\\My Vault',
+  title: 'a b',
+  selection,
+  frontmatter: { tags: ['x', 'y'], owner: { name: 'me' }, status: 'draft' }
+};
+
+const expand = (template: string, dialect: ShellDialect, values = context): string => {
+  const result = expandTemplate(template, values, dialect);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.command;
+};
+
+// Runs the command with printf in place of the tool, so sh prints each argument it would pass.
+const runPosixArguments = (command: string): string[] =>
+  execFileSync('/bin/sh', ['-c', `printf '%s\\0' ${command}`])
+    .toString()
+    .split('\0')
+    .slice(0, -1);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('expandTemplate', () => {
+  it.each(['posix', 'wsl'] as const)(
+    'passes values through sh unchanged in any quotes (%s)',
+    (dialect) => {
+      const command = expand(
+        `{{selection}} '{{selection}}' "{{selection}}" "say {{selection}}" 'say {{selection}}'`,
+        dialect
+      );
+      expect(runPosixArguments(command)).toEqual([
+        selection,
+        selection,
+        selection,
+        `say ${selection}`,
+        `say ${selection}`
+      ]);
+    }
+  );
+
+  it('converts Windows paths to WSL paths, leaving other values and other paths alone', () => {
+    expect(expand(`cd {{vault}} && claude "{{file}}" '{{folder}}' {{file_path}}`, 'wsl')).toBe(
+      `cd '/mnt/c/My Vault' && claude "/mnt/c/My Vault/a b.md" '/mnt/c/My Vault' 'a b.md'`
+    );
+    expect(expand('cd {{vault}}', 'wsl', { vault: '\\\\server\\share' })).toBe(
+      `cd '\\\\server\\share'`
+    );
+    expect(expand('cd {{vault}}', 'posix')).toBe(`cd 'C:\\My Vault'`);
+  });
+
+  it('escapes values inside the double quotes of a cmd.exe template without adding quotes', () => {
+    expect(expand('claude "summarize {{file}}"', 'cmd')).toBe(
+      'claude "summarize C:\\My Vault\\a b.md"'
+    );
+    expect(expand('claude "{{selection}}"', 'cmd')).toBe(
+      'claude "it\'s \\"a\\" $HOME `id` 100"^%" done next"'
+    );
+    expect(expand('cd "{{folder}}"', 'cmd', { ...context, folder: 'C:\\' })).toBe('cd "C:\\\\"');
+  });
+
+  it('quotes values on their own on cmd.exe, where single quotes are plain text', () => {
+    expect(expand('claude {{file}}', 'cmd')).toBe('claude "C:\\My Vault\\a b.md"');
+    expect(expand("claude '{{title}}'", 'cmd')).toBe(`claude '"a b"'`);
+    expect(expand('claude {{selection}}', 'cmd')).toBe(
+      'claude "it\'s \\"a\\" $HOME `id` 100"^%" done next"'
+    );
+  });
+
+  it('quotes values for PowerShell in each kind of quotes', () => {
+    expect(expand('claude {{selection}}', 'powershell')).toBe(
+      `claude 'it''s "a" $HOME \`id\` 100% done\nnext'`
+    );
+    expect(expand("claude 'say {{selection}}'", 'powershell')).toBe(
+      `claude 'say it''s "a" $HOME \`id\` 100% done\nnext'`
+    );
+    expect(expand('claude "say {{selection}}"', 'powershell')).toBe(
+      'claude "say it\'s `"a`" `$HOME ``id`` 100% done\nnext"'
+    );
+  });
+
+  it('formats the date', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 2, 3, 4, 5));
+    expect(expand('echo {{date}} {{date:YYYY-MM-DD_HH-mm-ss}}', 'posix')).toBe(
+      'echo 2024-01-02 2024-01-02_03-04-05'
+    );
+  });
+
+  it('reads frontmatter fields', () => {
+    expect(expand('echo {{frontmatter:status}} {{frontmatter:tags}}', 'posix')).toBe(
+      `echo draft 'x, y'`
+    );
+    expect(expand('echo {{ frontmatter:owner }}', 'posix')).toBe(`echo '{"name":"me"}'`);
+  });
+
+  it('reports placeholders it cannot fill', () => {
+    expect(expandTemplate('claude {{file}}', { vault: '/vault' }, 'posix')).toEqual({
+      error: '{{file}} needs an active note.'
+    });
+    expect(expandTemplate('claude {{selection}}', { vault: '/vault' }, 'posix')).toEqual({
+      command: "claude ''"
+    });
+    expect(expandTemplate('claude {{cwd}}', context, 'posix')).toEqual({
+      error: 'Unknown template variable {{cwd}}.'
+    });
+    expect(expandTemplate('claude {{frontmatter}}', context, 'posix')).toEqual({
+      error: '{{frontmatter}} needs a field name, such as {{frontmatter:tags}}.'
+    });
+    expect(expandTemplate('claude {{frontmatter:owner_id}}', context, 'posix')).toEqual({
+      error: "Frontmatter field 'owner_id' is not set in the active note."
+    });
+  });
+});
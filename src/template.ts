@@ -0,0 +1,203 @@
+import type { App, FileSystemAdapter, TFile } from 'obsidian';
+
+import { toWslPath } from './launcher';
+import {
+  escapeCmdDoubleQuoted,
+  escapePosixDoubleQuoted,
+  escapePosixSingleQuoted,
+  escapePowershellDoubleQuoted,
+  escapePowershellSingleQuoted,
+  quoteCmd,
+  quotePosix,
+  quotePowershell,
+  type ShellDialect
+} from './quoting';
+
+export type TemplateContext = {
+  vault: string;
+  file?: string;
+  filePath?: string;
+  folder?: string;
+  title?: string;
+  selection?: string;
+  frontmatter?: Record<string, unknown>;
+};
+
+export type TemplateResult = { command: string } | { error: string };
+
+type QuoteState = 'none' | 'single' | 'double';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_-]+)(?::([^}]*))?\s*\}\}/;
+
+const PATH_VARIABLES = new Set(['vault', 'file', 'folder']);
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+export const createTemplateContext = (
+  app: App,
+  adapter: FileSystemAdapter,
+  file?: TFile
+): TemplateContext => {
+  const context: TemplateContext = { vault: adapter.getBasePath() };
+  if (!file) {
+    return context;
+  }
+
+  context.file = adapter.getFullPath(file.path);
+  context.filePath = file.path;
+  context.folder =
+    file.parent && !file.parent.isRoot() ? adapter.getFullPath(file.parent.path) : context.vault;
+  context.title = file.basename;
+  context.frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+
+  const activeEditor = app.workspace.activeEditor;
+  if (activeEditor?.file === file) {
+    context.selection = activeEditor.editor?.getSelection();
+  }
+  return context;
+};
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+export const formatDate = (date: Date, format: string): string => {
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+};
+
+const formatFrontmatterValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatFrontmatterValue(item)).join(', ');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const resolveVariable = (
+  name: string,
+  argument: string | undefined,
+  context: TemplateContext
+): string | { error: string } => {
+  const missingNote = { error: `{{${name}}} needs an active note.` };
+  switch (name) {
+    case 'vault':
+      return context.vault;
+    case 'file':
+      return context.file ?? missingNote;
+    case 'file_path':
+      return context.filePath ?? missingNote;
+    case 'folder':
+      return context.folder ?? missingNote;
+    case 'title':
+      return context.title ?? missingNote;
+    case 'selection':
+      return context.selection ?? '';
+    case 'date':
+      return formatDate(new Date(), argument?.trim() || DEFAULT_DATE_FORMAT);
+    case 'frontmatter': {
+      const key = argument?.trim();
+      if (!key) {
+        return { error: '{{frontmatter}} needs a field name, such as {{frontmatter:tags}}.' };
+      }
+      const value = context.frontmatter?.[key];
+      if (value === undefined || value === null) {
+        return { error: `Frontmatter field '${key}' is not set in the active note.` };
+      }
+      return formatFrontmatterValue(value);
+    }
+    default:
+      return { error: `Unknown template variable {{${name}}}.` };
+  }
+};
+
+const quoteValue = (value: string, dialect: ShellDialect, state: QuoteState): string => {
+  switch (dialect) {
+    case 'cmd':
+      // cmd.exe has no single quotes, so only the author's double quotes change the escaping.
+      return state === 'double' ? escapeCmdDoubleQuoted(value) : quoteCmd(value);
+    case 'powershell':
+      if (state === 'double') {
+        return escapePowershellDoubleQuoted(value);
+      }
+      return state === 'single' ? escapePowershellSingleQuoted(value) : quotePowershell(value);
+    case 'posix':
+    case 'wsl':
+      if (state === 'double') {
+        return escapePosixDoubleQuoted(value);
+      }
+      return state === 'single' ? escapePosixSingleQuoted(value) : quotePosix(value);
+  }
+};
+
+// Tracks which quotes the template author left open, so a value placed inside them is escaped
+// for that context instead of being quoted a second time.
+const advanceQuoteState = (
+  text: string,
+  dialect: ShellDialect,
+  initial: QuoteState
+): QuoteState => {
+  let state = initial;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (dialect === 'cmd') {
+      if (char === '"') {
+        state = state === 'double' ? 'none' : 'double';
+      }
+      continue;
+    }
+    const escapeChar = dialect === 'powershell' ? '`' : '\\';
+    if (char === escapeChar && state !== 'single') {
+      index += 1;
+      continue;
+    }
+    if (char === "'" && state !== 'double') {
+      state = state === 'single' ? 'none' : 'single';
+    } else if (char === '"' && state !== 'single') {
+      state = state === 'double' ? 'none' : 'double';
+    }
+  }
+  return state;
+};
+
+export const expandTemplate = (
+  template: string,
+  context: TemplateContext,
+  dialect: ShellDialect
+): TemplateResult => {
+  let command = '';
+  let state: QuoteState = 'none';
+  let lastIndex = 0;
+
+  const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(template)) !== null) {
+    const index = match.index;
+    const literal = template.slice(lastIndex, index);
+    state = advanceQuoteState(literal, dialect, state);
+    command += literal;
+
+    const [placeholder, name, argument] = match;
+    const resolved = resolveVariable(name, argument, context);
+    if (typeof resolved !== 'string') {
+      return resolved;
+    }
+
+    let value = resolved;
+    if (dialect === 'wsl' && PATH_VARIABLES.has(name)) {
+      value = toWslPath(value) ?? value;
+    }
+    command += quoteValue(value, dialect, state);
+    lastIndex = index + placeholder.length;
+  }
+
+  command += template.slice(lastIndex);
+  return { command };
+};
@@ -0,0 +1,299 @@
+import { FitAddon } from '@xterm/addon-fit';
+import { Terminal } from '@xterm/xterm';
+import { debounce, ItemView, Platform, type ViewStateResult, type WorkspaceLeaf } from 'obsidian';
+
+import { logger } from './logger';
+import {
+  buildPtyCommand,
+  PipeLineBuffer,
+  resizePty,
+  spawnPty,
+  type PtyPlatform,
+  type PtyProcess,
+  type PtySize
+} from './pty';
+
+export const TERMINAL_VIEW_TYPE = 'open-in-terminal-view';
+
+export type LaunchMode = 'external' | 'embedded';
+
+export type EmbeddedTerminalLocation = 'split' | 'sidebar';
+
+export type TerminalViewState = {
+  title: string;
+  cwd: string;
+  command?: string;
+  // Holds secrets, so it stays out of the saved workspace and is built again on restore.
+  env?: Record<string, string>;
+  // The launch target whose variables and secrets a restored tab gets.
+  targetId?: string;
+  // Lets the send to agent commands find this tab.
+  sessionName?: string;
+  // Replaces the login shell that runs the command and stays open after it.
+  shell?: string;
+};
+
+const DEFAULT_SIZE: PtySize = { cols: 80, rows: 24 };
+
+// Dragging a split resizes the view many times; the session follows once the size settles.
+const PTY_RESIZE_DELAY_MS = 150;
+
+// Some prompts treat an Enter that arrives together with pasted text as part of the paste.
+const SUBMIT_DELAY_MS = 100;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const readViewState = (value: unknown): TerminalViewState | null => {
+  if (!isRecord(value) || typeof value.cwd !== 'string' || typeof value.title !== 'string') {
+    return null;
+  }
+  let env: Record<string, string> | undefined;
+  if (isRecord(value.env)) {
+    env = {};
+    for (const [key, entry] of Object.entries(value.env)) {
+      if (typeof entry === 'string') {
+        env[key] = entry;
+      }
+    }
+  }
+  return {
+    title: value.title,
+    cwd: value.cwd,
+    command: typeof value.command === 'string' ? value.command : undefined,
+    env,
+    targetId: typeof value.targetId === 'string' ? value.targetId : undefined,
+    sessionName: typeof value.sessionName === 'string' ? value.sessionName : undefined,
+    shell: typeof value.shell === 'string' ? value.shell : undefined
+  };
+};
+
+const withoutEnv = (state: TerminalViewState): TerminalViewState => ({ ...state, env: undefined });
+
+const getPtyPlatform = (): PtyPlatform => {
+  if (Platform.isWin) {
+    return 'win';
+  }
+  return Platform.isMacOS ? 'macos' : 'linux';
+};
+
+const readCssVariable = (name: string): string =>
+  getComputedStyle(document.body).getPropertyValue(name).trim();
+
+/**
+ * A terminal tab inside the workspace. The view state holds the working directory and command,
+ * so tabs come back after a restart and start a fresh session with the same command. The
+ * environment is not saved; `getEnv` builds it again from the current settings and secrets.
+ */
+export class TerminalView extends ItemView {
+  private state: TerminalViewState | null = null;
+  private terminal: Terminal | null = null;
+  private fitAddon: FitAddon | null = null;
+  private session: PtyProcess | null = null;
+  private inputBuffer: PipeLineBuffer | null = null;
+  private readonly resizeSession = debounce(
+    () => {
+      const session = this.session;
+      const terminal = this.terminal;
+      if (session && terminal && session.child.exitCode === null) {
+        const size = { cols: terminal.cols, rows: terminal.rows };
+        void resizePty(session, getPtyPlatform(), size).then((resized) => {
+          logger.log('Resized embedded terminal', { size, resized });
+        });
+      }
+    },
+    PTY_RESIZE_DELAY_MS,
+    true
+  );
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private readonly getEnv: (state: TerminalViewState) => Promise<Record<string, string>>
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return TERMINAL_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return this.state?.title ?? 'Terminal';
+  }
+
+  getIcon(): string {
+    return 'terminal-square';
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), ...(this.state && withoutEnv(this.state)) };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const next = readViewState(state);
+    if (next) {
+      next.env ??= await this.getEnv(next);
+      this.state = next;
+      this.startSession();
+    }
+    await super.setState(state, result);
+  }
+
+  async onOpen() {
+    this.contentEl.empty();
+    this.contentEl.addClass('open-in-terminal-view');
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: readCssVariable('--font-monospace') || 'monospace',
+      fontSize: 13,
+      theme: {
+        background: readCssVariable('--background-primary'),
+        foreground: readCssVariable('--text-normal'),
+        cursor: readCssVariable('--text-accent')
+      }
+    });
+    const fitAddon = new FitAddon();
+    terminal.loadAddon(fitAddon);
+    terminal.open(this.contentEl.createDiv({ cls: 'open-in-terminal-view-host' }));
+    terminal.onData((data) => this.handleInput(data));
+    this.terminal = terminal;
+    this.fitAddon = fitAddon;
+
+    this.addAction('rotate-ccw', 'Restart session', () => {
+      this.startSession();
+    });
+    await Promise.resolve();
+  }
+
+  /** Fits the terminal to the view and passes the new size on to the running session. */
+  onResize() {
+    const dimensions = this.fitAddon?.proposeDimensions();
+    const terminal = this.terminal;
+    if (!terminal || !dimensions || !dimensions.cols || !dimensions.rows) {
+      return;
+    }
+    if (dimensions.cols === terminal.cols && dimensions.rows === terminal.rows) {
+      return;
+    }
+    this.fitAddon?.fit();
+    this.resizeSession();
+  }
+
+  async onClose() {
+    this.resizeSession.cancel();
+    this.stopSession();
+    this.terminal?.dispose();
+    this.terminal = null;
+    this.fitAddon = null;
+    await Promise.resolve();
+  }
+
+  getSessionName(): string | undefined {
+    return this.state?.sessionName;
+  }
+
+  isRunning(): boolean {
+    return this.session !== null && this.session.child.exitCode === null;
+  }
+
+  /** Types text into the running program as one paste and submits it. */
+  sendText(text: string): boolean {
+    const session = this.session;
+    const terminal = this.terminal;
+    if (!session || !terminal || session.child.exitCode !== null) {
+      return false;
+    }
+    if (!session.pseudoTerminal) {
+      // cmd.exe reads one command per line from the pipe.
+      session.child.stdin.write(`${text.replace(/\r?\n/g, ' ')}\r\n`);
+      return true;
+    }
+    const paste = terminal.modes.bracketedPasteMode ? `\x1b[200~${text}\x1b[201~` : text;
+    session.child.stdin.write(paste);
+    window.setTimeout(() => {
+      if (this.session === session) {
+        session.child.stdin.write('\r');
+      }
+    }, SUBMIT_DELAY_MS);
+    return true;
+  }
+
+  private handleInput(data: string) {
+    const session = this.session;
+    if (!session || session.child.exitCode !== null) {
+      return;
+    }
+    if (this.inputBuffer) {
+      this.inputBuffer.write(data);
+      return;
+    }
+    session.child.stdin.write(data);
+  }
+
+  private measure(): PtySize {
+    const terminal = this.terminal;
+    const dimensions = this.fitAddon?.proposeDimensions();
+    if (!terminal || !dimensions || !dimensions.cols || !dimensions.rows) {
+      return DEFAULT_SIZE;
+    }
+    terminal.resize(dimensions.cols, dimensions.rows);
+    return { cols: dimensions.cols, rows: dimensions.rows };
+  }
+
+  private startSession() {
+    const terminal = this.terminal;
+    const state = this.state;
+    if (!terminal || !state) {
+      return;
+    }
+    this.stopSession();
+    terminal.reset();
+
+    // Later changes to the view's size reach the session through onResize.
+    const size = this.measure();
+    const shell = state.shell || process.env.SHELL || '/bin/sh';
+    const command = buildPtyCommand(getPtyPlatform(), shell, state.command, size);
+    logger.log('Starting embedded terminal', { state: withoutEnv(state), command });
+
+    // util-linux script runs the command with $SHELL, which has to be an absolute path.
+    const env = state.shell?.startsWith('/') ? { ...state.env, SHELL: state.shell } : state.env;
+    let session: PtyProcess;
+    try {
+      session = spawnPty(command, state.cwd, env ?? {});
+    } catch (error) {
+      terminal.writeln(`Unable to start the terminal: ${String(error)}`);
+      return;
+    }
+    this.session = session;
+    this.inputBuffer = session.pseudoTerminal
+      ? null
+      : new PipeLineBuffer(
+          (text) => terminal.write(text),
+          (text) => session.child.stdin.write(text)
+        );
+
+    const write = (text: string) => {
+      terminal.write(session.pseudoTerminal ? text : text.replace(/\r?\n/g, '\r\n'));
+    };
+    session.child.stdout.setEncoding('utf8').on('data', write);
+    session.child.stderr.setEncoding('utf8').on('data', write);
+    session.child.on('error', (error) => {
+      terminal.writeln(`\r\nUnable to start the terminal: ${error.message}`);
+    });
+    session.child.on('exit', (code) => {
+      if (this.session === session) {
+        terminal.writeln(`\r\n[Process exited with code ${code ?? 'none'}]`);
+      }
+    });
+    terminal.focus();
+  }
+
+  private stopSession() {
+    const session = this.session;
+    this.session = null;
+    this.inputBuffer = null;
+    if (session && session.child.exitCode === null) {
+      session.child.kill();
+    }
+  }
+}
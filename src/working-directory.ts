@@ -0,0 +1,93 @@
+import { spawn } from 'child_process';
+
+import { FileSystemAdapter, normalizePath, TFolder, type App } from 'obsidian';
+
+export type WorkingDirectoryStrategy = 'vault-root' | 'active-folder' | 'git-root' | 'subfolder';
+
+export type WorkingDirectorySetting = {
+  strategy: WorkingDirectoryStrategy;
+  subfolder: string;
+};
+
+export type WorkingDirectoryResult = { path: string } | { error: string };
+
+export const workingDirectoryStrategyLabels: Record<WorkingDirectoryStrategy, string> = {
+  'vault-root': 'Vault root',
+  'active-folder': "Current note's folder",
+  'git-root': 'Nearest Git repository',
+  subfolder: 'Fixed subfolder'
+};
+
+export const DEFAULT_WORKING_DIRECTORY: WorkingDirectorySetting = {
+  strategy: 'vault-root',
+  subfolder: ''
+};
+
+export const ACTIVE_FOLDER_WORKING_DIRECTORY: WorkingDirectorySetting = {
+  strategy: 'active-folder',
+  subfolder: ''
+};
+
+export const isWorkingDirectoryStrategy = (value: unknown): value is WorkingDirectoryStrategy =>
+  typeof value === 'string' && value in workingDirectoryStrategyLabels;
+
+export const getFolderFullPath = (adapter: FileSystemAdapter, folder: TFolder): string =>
+  folder.isRoot() ? adapter.getBasePath() : adapter.getFullPath(folder.path);
+
+const getActiveFolder = (app: App): TFolder | null => app.workspace.getActiveFile()?.parent ?? null;
+
+export const findGitRoot = (cwd: string): Promise<string | null> =>
+  new Promise((resolve) => {
+    let output = '';
+    const child = spawn('git', ['rev-parse', '--show-toplevel'], {
+      cwd,
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+    child.stdout.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    child.on('close', (code) => resolve(code === 0 ? output.trim() || null : null));
+    child.on('error', () => resolve(null));
+  });
+
+export const resolveWorkingDirectory = async (
+  app: App,
+  setting: WorkingDirectorySetting
+): Promise<WorkingDirectoryResult> => {
+  const adapter = app.vault.adapter;
+  if (!(adapter instanceof FileSystemAdapter)) {
+    return { error: 'File system adapter not available. This plugin works only on desktop.' };
+  }
+
+  switch (setting.strategy) {
+    case 'vault-root':
+      return { path: adapter.getBasePath() };
+    case 'active-folder': {
+      const folder = getActiveFolder(app);
+      if (!folder) {
+        return { error: 'Open a note first to use its folder as the working directory.' };
+      }
+      return { path: getFolderFullPath(adapter, folder) };
+    }
+    case 'git-root': {
+      const folder = getActiveFolder(app);
+      const start = folder ? getFolderFullPath(adapter, folder) : adapter.getBasePath();
+      const gitRoot = await findGitRoot(start);
+      if (!gitRoot) {
+        return { error: 'No Git repository found for the current note or vault.' };
+      }
+      return { path: gitRoot };
+    }
+    case 'subfolder': {
+      const subfolder = setting.subfolder.trim();
+      if (!subfolder) {
+        return { error: 'No subfolder is configured for this target.' };
+      }
+      const folder = app.vault.getAbstractFileByPath(normalizePath(subfolder));
+      if (!(folder instanceof TFolder)) {
+        return { error: `Folder '${subfolder}' does not exist in this vault.` };
+      }
+      return { path: getFolderFullPath(adapter, folder) };
+    }
+  }
+};